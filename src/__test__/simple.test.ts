@@ -11,7 +11,40 @@ import {
   generateDeeplyNested,
   TEST_SAMPLES,
   TEST_LANGUAGES,
+  mockConfiguration,
 } from './test-setup';
+import { OptimizedBracketParser } from '../core/performance-parser';
+import { serializeBrackets } from '../core/parse-worker-protocol';
+import {
+  BracketLynx,
+  BracketLynxConfig,
+  BracketParser,
+  BracketDecorationGenerator,
+  DocumentDecorationCacheEntry,
+  isSupportedLanguage,
+  type BracketEntry,
+  type ParseProgress,
+} from '../lens/lens';
+import { TimeSlicer, type SlicedWork } from '../core/time-slicer';
+import { LanguageRegistry } from '../core/language-registry';
+import {
+  BracketDiagnostics,
+  UnmatchedBracketCodeActionProvider,
+} from '../lens/bracket-diagnostics';
+import { DocumentSymbolHeaders } from '../lens/symbol-headers';
+import { ScopeClassifier } from '../lens/scope-classifier';
+import { filterContent } from '../lens/lens-rules';
+import { RenderOptionsBuilder } from '../lens/render-options';
+import { BracketCodeLensProvider, BracketInlayHintsProvider } from '../lens/render-providers';
+import { FocusMode } from '../lens/focus-mode';
+import { UpdateMode } from '../lens/update-mode';
+import { DecorationQueue } from '../lens/decoration-queue';
+import { BracketLynxStatusBar } from '../actions/status-bar';
+import * as vscode from 'vscode';
+import { getCurrentColor, getScopeColorResolver, onConfigurationChanged } from '../actions/colors';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // =============================================================================
 // TEST CONFIGURATION & CONSTANTS
@@ -82,6 +115,40 @@ class TestUtilities {
       global.gc();
     }
   }
+
+  static applyEdit(
+    document: any,
+    offset: number,
+    deleteCount: number,
+    insertText: string,
+  ) {
+    const text = document.getText();
+    const change = {
+      range: new (global as any).vscode.Range(
+        document.positionAt(offset),
+        document.positionAt(offset + deleteCount),
+      ),
+      rangeOffset: offset,
+      rangeLength: deleteCount,
+      text: insertText,
+    };
+    const edited = createMockDocument(
+      text.slice(0, offset) + insertText + text.slice(offset + deleteCount),
+      document.languageId,
+      document.version + 1,
+    );
+    return { document: edited, change };
+  }
+
+  static describeBrackets(brackets: any[]): any[] {
+    return brackets.map((bracket) => ({
+      start: `${bracket.start.position.line}:${bracket.start.position.character}`,
+      end: `${bracket.end.position.line}:${bracket.end.position.character}`,
+      tokens: bracket.start.token + bracket.end.token,
+      unmatched: bracket.isUnmatchBrackets,
+      items: TestUtilities.describeBrackets(bracket.items),
+    }));
+  }
 }
 
 // =============================================================================
@@ -195,6 +262,1453 @@ describe('🚀 Quick Tests - Basic Health Check', function () {
   });
 });
 
+// =============================================================================
+// QUICK TESTS - Incremental Parsing
+// =============================================================================
+
+describe('🚀 Quick Tests - Incremental Parsing', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  const parser = OptimizedBracketParser.getInstance();
+  const source = [
+    'class Store {',
+    '  constructor() {',
+    '    this.items = [',
+    '      1,',
+    '      2,',
+    '    ];',
+    '  }',
+    '',
+    '  add(item) {',
+    '    if (item) {',
+    '      // keep { braces } in comments out',
+    '      this.items.push(item);',
+    '    }',
+    '  }',
+    '}',
+    '',
+    'function helper() {',
+    '  return "}";',
+    '}',
+  ].join('\n');
+
+  const expectIncrementalMatchesFull = (
+    edits: [string, number, string][],
+  ) => {
+    parser.clearAllCache();
+    let document = createMockDocument(source);
+    parser.parseBrackets(document);
+
+    for (const [anchor, deleteCount, insertText] of edits) {
+      const offset = document.getText().indexOf(anchor);
+      assert.ok(offset >= 0, `Anchor "${anchor}" should exist`);
+      const edit = TestUtilities.applyEdit(
+        document,
+        offset,
+        deleteCount,
+        insertText,
+      );
+      document = edit.document;
+
+      // Parse the same text under another URI so the incremental chain stays intact
+      const incremental = parser.parseIncremental(document, [edit.change]);
+      const full = parser.parseBrackets(
+        createMockDocument(document.getText(), 'typescript'),
+      );
+
+      assert.deepStrictEqual(
+        TestUtilities.describeBrackets(incremental.brackets),
+        TestUtilities.describeBrackets(full),
+        `Incremental result should match a full parse after editing "${anchor}"`,
+      );
+    }
+  };
+
+  it('✅ Nested edit should only reparse its enclosing scope', () => {
+    parser.clearAllCache();
+    const document = createMockDocument(source);
+    parser.parseBrackets(document);
+
+    const offset = source.indexOf('this.items.push');
+    const edit = TestUtilities.applyEdit(
+      document,
+      offset,
+      0,
+      'if (ready) {\n        go();\n      }\n      ',
+    );
+    const result = parser.parseIncremental(edit.document, [edit.change]);
+
+    assert.strictEqual(result.affectedRegions.length, 1);
+    assert.ok(
+      result.affectedRegions[0].startLine >= 9,
+      'Damage window should start inside the if block',
+    );
+  });
+
+  it('✅ Incremental edits should match a full parse', () => {
+    expectIncrementalMatchesFull([
+      ['this.items.push', 0, 'while (x) {\n        x--;\n      }\n      '],
+      ['2,', 0, '[\n        3,\n      ],\n      '],
+      ['  add(item)', 0, '  size() {\n    return 0;\n  }\n\n'],
+      ['// keep', 3, ''],
+    ]);
+  });
+
+  it('✅ Unbalancing edits should fall back to a correct tree', () => {
+    expectIncrementalMatchesFull([
+      ['    }\n  }\n}', 5, ''],
+      ['"}"', 1, '`'],
+      ['class Store {', 13, 'class Store {\n  /*'],
+      ['function helper', 0, '{\n'],
+    ]);
+  });
+});
+
+describe('🚀 Quick Tests - Script Tokenizer', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Regex literals and template substitutions should be tokenized', () => {
+    const parser = OptimizedBracketParser.getInstance();
+    parser.clearAllCache();
+    const document = createMockDocument(
+      [
+        'const query = (items) => sql`',
+        '  SELECT ${items.map((item) => {',
+        '    const label = `${item.name} = ${format(() => {',
+        '      const unit = "}";',
+        '      const value = item.value;',
+        '      return value + unit;',
+        '    })}`;',
+        '    return label;',
+        '  })} FROM labels',
+        '`;',
+        'const pattern = /[{(]/g;',
+        'function ratio(a, b) {',
+        '  const half = a / b / 2;',
+        '  if (/}/.test(a)) {',
+        '    return half;',
+        '  }',
+        '  return a.split(/\\/{/);',
+        '}',
+      ].join('\n'),
+    );
+
+    const describeScopes = (entries: BracketEntry[]): unknown[] =>
+      entries.map((i) => [
+        i.start.token + i.end.token,
+        i.start.position.line,
+        i.end.position.line,
+        describeScopes(i.items),
+      ]);
+
+    // The optimized parse drops top-level scopes shorter than five lines
+    assert.deepStrictEqual(describeScopes(parser.parseBrackets(document)), [
+      ['()', 1, 8, [['{}', 1, 8, [['()', 2, 6, [['{}', 2, 6, []]]]]]]],
+      ['{}', 11, 17, [['{}', 13, 15, []]]],
+    ]);
+  });
+
+  it('✅ Slashes outside JS/TS should not start regex literals', () => {
+    const parser = OptimizedBracketParser.getInstance();
+    parser.clearAllCache();
+    const document = createMockDocument(
+      [
+        '.banner {',
+        '  background: url(/banner.png) no-repeat;',
+        '  color: red;',
+        '  margin: 0;',
+        '  padding: 0;',
+        '}',
+      ].join('\n'),
+      'css',
+    );
+
+    try {
+      const brackets = parser.parseBrackets(document);
+      assert.deepStrictEqual(
+        brackets.map((i) => [i.start.token + i.end.token, i.start.position.line, i.end.position.line, i.isUnmatchBrackets]),
+        [['{}', 0, 5, false]],
+      );
+    } finally {
+      parser.clearAllCache();
+    }
+  });
+});
+
+describe('🚀 Quick Tests - Parse Worker', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Parse results should survive the worker boundary', () => {
+    const parser = OptimizedBracketParser.getInstance();
+    parser.clearAllCache();
+    const brackets = parser.parseBrackets(
+      createMockDocument(
+        [
+          'class Store {',
+          '  add(item) {',
+          '    if (item) {',
+          '      this.items.push(item);',
+          '    }',
+          '  }',
+          '}',
+        ].join('\n'),
+      ),
+    );
+    const serialized = serializeBrackets(brackets);
+
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(serialized)), serialized);
+    assert.strictEqual(serialized[0].start.line, 0);
+    assert.strictEqual(serialized[0].end.token, '}');
+    assert.strictEqual(
+      serialized[0].items.length,
+      brackets[0].items.length,
+      'Nested scopes should be kept',
+    );
+    // Mock documents share one URI, so later tests must not see this parse
+    parser.clearAllCache();
+  });
+});
+
+describe('🚀 Quick Tests - Language Configuration', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  before(() => {
+    mockConfiguration.languages = {
+      mydsl: {
+        comments: { line: ['#'] },
+        brackets: {
+          word: [{ opening: 'begin', closing: 'end', headerMode: 'before' }],
+        },
+        strings: {
+          inline: [{ opening: '"', closing: '"', escape: ['\\"'] }],
+        },
+      },
+    };
+  });
+
+  after(() => {
+    delete mockConfiguration.languages;
+  });
+
+  it('✅ Configured languages should be supported', () => {
+    assert.strictEqual(isSupportedLanguage('mydsl'), true);
+    assert.strictEqual(isSupportedLanguage('otherdsl'), false);
+  });
+
+  it('✅ Grammars without a bracket pair should be ignored', () => {
+    mockConfiguration.languages = {
+      ...mockConfiguration.languages,
+      emptydsl: { comments: { line: ['#'] } },
+      blankdsl: { brackets: { symbol: [{ opening: '', closing: '' }] } },
+    };
+    try {
+      assert.strictEqual(isSupportedLanguage('emptydsl'), false);
+      assert.strictEqual(isSupportedLanguage('blankdsl'), false);
+      assert.deepStrictEqual(Object.keys(BracketLynxConfig.languages), ['mydsl']);
+      assert.ok(BracketLynxConfig.getLanguageSpecificConfig('emptydsl').brackets?.symbol?.length);
+    } finally {
+      delete mockConfiguration.languages.emptydsl;
+      delete mockConfiguration.languages.blankdsl;
+    }
+  });
+
+  it('✅ Configured grammar should drive bracket parsing', () => {
+    const document = createMockDocument(
+      [
+        'task build begin',
+        '  # begin is only a comment here',
+        '  say "end"',
+        '  step begin',
+        '    run',
+        '  end',
+        'end',
+      ].join('\n'),
+      'mydsl',
+    );
+    const brackets = BracketParser.parseBrackets(document);
+
+    assert.strictEqual(brackets.length, 1);
+    assert.strictEqual(brackets[0].start.token, 'begin');
+    assert.strictEqual(brackets[0].end.position.line, 6);
+    assert.strictEqual(brackets[0].items.length, 1);
+    assert.strictEqual(brackets[0].items[0].start.position.line, 3);
+  });
+
+  it('✅ Languages should use their extension grammar unless opted out', () => {
+    const vscode = require('vscode');
+    const extensionPath = fs.mkdtempSync(path.join(os.tmpdir(), 'bracket-lynx-'));
+    fs.writeFileSync(
+      path.join(extensionPath, 'language-configuration.json'),
+      [
+        '{',
+        '  // Comments and trailing commas are allowed here',
+        '  "comments": { "lineComment": "//", "blockComment": ["/*", "*/"] },',
+        '  "brackets": [["{", "}"], ["(", ")"],],',
+        '  "autoClosingPairs": [{ "open": "\\"", "close": "\\"" }],',
+        '}',
+      ].join('\n'),
+    );
+    vscode.extensions.all.push({
+      extensionPath,
+      packageJSON: {
+        contributes: {
+          languages: [{ id: 'go', configuration: './language-configuration.json' }],
+        },
+      },
+    });
+
+    // As on extensions.onDidChange
+    LanguageRegistry.getInstance().refresh();
+
+    try {
+      assert.strictEqual(isSupportedLanguage('go'), true, 'Derived grammars are on by default');
+
+      mockConfiguration.derivedLanguages = ['*', '!go'];
+      assert.strictEqual(isSupportedLanguage('go'), false);
+      mockConfiguration.derivedLanguages = [];
+      assert.strictEqual(isSupportedLanguage('go'), false);
+      mockConfiguration.derivedLanguages = ['go'];
+      assert.strictEqual(isSupportedLanguage('go'), true);
+
+      const brackets = BracketParser.parseBrackets(
+        createMockDocument(
+          ['func main() {', '  // }', '  fmt.Println("}")', '  run()', '}'].join('\n'),
+          'go',
+        ),
+      );
+      assert.strictEqual(brackets.length, 1);
+      assert.strictEqual(brackets[0].end.position.line, 4);
+    } finally {
+      delete mockConfiguration.derivedLanguages;
+      vscode.extensions.all.length = 0;
+      LanguageRegistry.getInstance().refresh();
+      fs.rmSync(extensionPath, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('🚀 Quick Tests - Indentation Scopes', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Python blocks should become scopes ending at their last line', () => {
+    const document = createMockDocument(
+      [
+        'class Trainer:',
+        '    """Docs',
+        'def not_a_block():',
+        '    """',
+        '',
+        '    def train_model(self,',
+        '                    epochs):',
+        '        for epoch in range(epochs):',
+        '            self.step()',
+        '            self.log()',
+        '        return self',
+        '',
+        '    def evaluate(self):',
+        '        scores = [',
+        '            1,',
+        '        ]',
+        '        return scores',
+        '',
+        'helper = 1',
+      ].join('\n'),
+      'python',
+    );
+    const brackets = BracketParser.parseBrackets(document);
+
+    assert.strictEqual(brackets.length, 1, 'Docstring text should not open blocks');
+    const [trainer] = brackets;
+    assert.strictEqual(trainer.end.position.line, 16);
+    assert.deepStrictEqual(
+      trainer.items.map((i) => [i.start.position.line, i.end.position.line]),
+      [
+        [5, 10],
+        [12, 16],
+      ],
+    );
+    assert.strictEqual(trainer.items[1].items[0].start.token, '[');
+
+    const headers = BracketDecorationGenerator.getBracketDecorationSource(
+      document,
+      brackets,
+    ).map((i) => i.bracketHeader);
+    assert.ok(headers.includes('‹~ #6-11 •def train_model'));
+  });
+
+  it('✅ Underscores in names should only be kept for snake-case languages', () => {
+    assert.strictEqual(filterContent('def train_model(self)', 'python'), 'def train_model self');
+    assert.strictEqual(filterContent('MAX_SIZE: 10', 'yaml'), 'MAX_SIZE 10');
+    assert.strictEqual(filterContent('const MAX_SIZE = _load()', 'typescript'), 'const MAX SIZE load');
+    assert.strictEqual(filterContent('const MAX_SIZE = 1'), 'const MAX SIZE 1');
+  });
+
+  it('✅ Typing in an indentation document should keep other documents cached', () => {
+    const parser = OptimizedBracketParser.getInstance();
+    parser.clearAllCache();
+    const script = createMockDocument(
+      ['function render() {', '  draw();', '  log();', '  save();', '  notify();', '}'].join('\n'),
+    );
+    parser.parseBrackets(script);
+
+    const python = createMockDocument(['def train():', '    step()', '    log()', '    save()'].join('\n'), 'python');
+    const edit = TestUtilities.applyEdit(python, python.getText().length, 0, '\n    done()');
+    BracketLynx.onDidChangeTextDocument(edit.document, [edit.change]);
+
+    assert.strictEqual(parser.parseIncremental(script, []).cacheHit, true);
+    parser.clearAllCache();
+  });
+
+  it('✅ YAML mappings should nest and keep block scalars whole', () => {
+    const brackets = BracketParser.parseBrackets(
+      createMockDocument(
+        [
+          'jobs:',
+          '  build:',
+          '    steps:',
+          '      - name: Test',
+          '        run: |',
+          '          if true; then',
+          '            npm test',
+          '          fi',
+          'done: true',
+        ].join('\n'),
+        'yaml',
+      ),
+    );
+
+    const describeScopes = (entries: typeof brackets): unknown[] =>
+      entries.map((i) => [
+        i.start.position.line,
+        i.end.position.line,
+        describeScopes(i.items),
+      ]);
+    assert.deepStrictEqual(describeScopes(brackets), [
+      [0, 7, [[1, 7, [[2, 7, [[3, 7, [[4, 7, []]]]]]]]]],
+    ]);
+  });
+});
+
+describe('🚀 Quick Tests - Keyword Blocks', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  const describeScopes = (entries: BracketEntry[]): unknown[] =>
+    entries.map((i) => [
+      i.start.token,
+      i.start.position.line,
+      i.end.position.line,
+      describeScopes(i.items),
+    ]);
+
+  it('✅ Ruby blocks should split at inters and skip modifier ifs', () => {
+    const document = createMockDocument(
+      [
+        'class Deployer',
+        '  def run(env)',
+        '    return if env.nil?',
+        '    if env == :prod',
+        '      confirm!',
+        '    else',
+        '      notify',
+        '    end',
+        '  rescue StandardError',
+        '    raise',
+        '  end',
+        'end',
+      ].join('\n'),
+      'ruby',
+    );
+    const brackets = BracketParser.parseBrackets(document);
+
+    assert.deepStrictEqual(describeScopes(brackets), [
+      [
+        'class',
+        0,
+        11,
+        [
+          [
+            'def',
+            1,
+            8,
+            [
+              ['if', 3, 5, []],
+              ['else', 5, 7, []],
+            ],
+          ],
+          ['rescue', 8, 10, []],
+        ],
+      ],
+    ]);
+    assert.ok(brackets.every((i) => !i.isUnmatchBrackets));
+
+    const headers = BracketDecorationGenerator.getBracketDecorationSource(
+      document,
+      brackets,
+    ).map((i) => i.bracketHeader);
+    assert.ok(headers.includes('‹~ #1-12 •class Deployer'));
+  });
+
+  it('✅ Shell and SQL keywords should close their own blocks', () => {
+    const shell = BracketParser.parseBrackets(
+      createMockDocument(
+        [
+          'if [ -z "$1" ]; then',
+          '  for f in *; do',
+          '    echo "$f"',
+          '  done',
+          'elif [ "$2" ]; then',
+          '  exit 1',
+          'fi',
+        ].join('\n'),
+        'shellscript',
+      ),
+    );
+    assert.deepStrictEqual(describeScopes(shell), [
+      ['if', 0, 4, [['do', 1, 3, []]]],
+      ['elif', 4, 6, []],
+    ]);
+
+    const sql = BracketParser.parseBrackets(
+      createMockDocument(
+        [
+          'begin',
+          '  IF ready THEN',
+          '    UPDATE t SET a = 1;',
+          '  END IF;',
+          'END;',
+        ].join('\n'),
+        'sql',
+      ),
+    );
+    assert.deepStrictEqual(describeScopes(sql), [['begin', 0, 4, []]]);
+    assert.strictEqual(sql[0].isUnmatchBrackets, false);
+  });
+});
+
+describe('🚀 Quick Tests - Embedded Regions', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Vue blocks should be parsed in their own languages', () => {
+    const document = createMockDocument(
+      [
+        '<template>',
+        '  <p :style="{',
+        '    color: tint,',
+        '  }">{{ label }}</p>',
+        '</template>',
+        '<script setup lang="ts">',
+        'const options = reactive({',
+        "  label: '}',",
+        '  size: 10,',
+        '});',
+        '</script>',
+        '<style lang="scss">',
+        '// a { comment',
+        '.card {',
+        '  margin: 0;',
+        '  padding: 0;',
+        '}',
+        '</style>',
+      ].join('\n'),
+      'vue',
+    );
+    const brackets = BracketParser.parseBrackets(document);
+
+    assert.deepStrictEqual(
+      brackets.map((i) => [i.start.token, i.start.position.line, i.end.position.line]),
+      [
+        ['(', 6, 9],
+        ['{', 13, 16],
+      ],
+      'Template bindings are left to the frameworks decorator',
+    );
+    assert.ok(brackets.every((i) => !i.isUnmatchBrackets));
+
+    const headers = BracketDecorationGenerator.getBracketDecorationSource(
+      document,
+      brackets,
+    ).map((i) => i.bracketHeader);
+    assert.ok(headers.includes('‹~ #14-17 •card'));
+  });
+
+  it('✅ Astro frontmatter should be parsed as TypeScript', () => {
+    const brackets = BracketParser.parseBrackets(
+      createMockDocument(
+        [
+          '---',
+          'const posts = await getPosts({',
+          "  tag: '{',",
+          '  limit: 10,',
+          '});',
+          '---',
+          '<ul>{posts.map((post) => (',
+          '  <li>{post.title}</li>',
+          '))}</ul>',
+        ].join('\n'),
+        'astro',
+      ),
+    );
+
+    assert.deepStrictEqual(
+      brackets.map((i) => [i.start.token, i.start.position.line, i.end.position.line]),
+      [['(', 1, 4]],
+    );
+  });
+});
+
+describe('🚀 Quick Tests - Unmatched Bracket Diagnostics', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Unclosed brackets should be reported with a fix at the end of their body', () => {
+    const document = createMockDocument(
+      [
+        'function render(props) {',
+        '  draw(props);',
+        '  return props;',
+        '',
+        'const ready = true;',
+      ].join('\n'),
+    );
+    const diagnostics = BracketDiagnostics.getDiagnostics(
+      document,
+      BracketParser.parseBrackets(document),
+    );
+
+    assert.deepStrictEqual(
+      diagnostics.map((i) => i.message),
+      ['`{` opened at line 1 (`function render`) is never closed'],
+    );
+    assert.strictEqual(
+      diagnostics[0].relatedInformation?.[0].location.range.start.line,
+      0,
+    );
+
+    const [fix] = new UnmatchedBracketCodeActionProvider().provideCodeActions(
+      document,
+      diagnostics[0].range,
+      { diagnostics, only: undefined, triggerKind: 1 } as any,
+    );
+    assert.strictEqual(fix.title, 'Insert missing `}`');
+    const [edit] = (fix.edit as any).edits;
+    assert.deepStrictEqual(
+      [edit.range.start.line, edit.range.start.character, edit.newText],
+      [2, 15, '\n}'],
+    );
+  });
+
+  it('✅ Brackets closed by the wrong type should be reported', () => {
+    const document = createMockDocument(
+      ['const total = sum(', '  a,', '  b', '};', 'const extra = 1);'].join('\n'),
+    );
+    const diagnostics = BracketDiagnostics.getDiagnostics(
+      document,
+      BracketParser.parseBrackets(document),
+    );
+
+    assert.deepStrictEqual(
+      diagnostics.map((i) => [i.message, i.range.start.line, i.range.start.character]),
+      [
+        ['`(` opened at line 1 (`const total = sum`) is closed by `}` instead of `)`', 3, 0],
+        ['`)` has no matching opening bracket', 4, 15],
+      ],
+    );
+
+    const [fix] = new UnmatchedBracketCodeActionProvider().provideCodeActions(
+      document,
+      diagnostics[0].range,
+      { diagnostics: [diagnostics[0]], only: undefined, triggerKind: 1 } as any,
+    );
+    assert.strictEqual(fix.title, 'Replace `}` with `)`');
+  });
+
+  it('✅ Short scopes left out of the decorations should still be reported', () => {
+    const parser = OptimizedBracketParser.getInstance();
+    parser.clearAllCache();
+    const document = createMockDocument(
+      [
+        'function render(props) {',
+        '  draw(props);',
+        '}',
+        '}',
+        'const sizes = [1,',
+        '  2,',
+        '  3);',
+      ].join('\n'),
+    );
+
+    try {
+      // Parsed as an update parses it, so the optimized parser's filters apply
+      const { brackets, unfilteredBrackets } = DocumentDecorationCacheEntry.parse(document);
+      assert.deepStrictEqual(brackets, []);
+      assert.deepStrictEqual(
+        BracketDiagnostics.getDiagnostics(document, unfilteredBrackets).map((i) => [i.message, i.range.start.line]),
+        [
+          ['`}` has no matching opening bracket', 3],
+          ['`[` opened at line 5 (`const sizes`) is closed by `)` instead of `]`', 6],
+        ],
+      );
+    } finally {
+      parser.clearAllCache();
+    }
+  });
+
+  it('✅ Brackets in TSX strings, regexes and text should not be reported', () => {
+    const messagesOf = (lines: string[]) => {
+      const document = createMockDocument(lines.join('\n'), 'typescriptreact');
+      return BracketDiagnostics.getDiagnostics(
+        document,
+        DocumentDecorationCacheEntry.parse(document).unfilteredBrackets,
+      ).map((i) => i.message);
+    };
+
+    assert.deepStrictEqual(
+      messagesOf([
+        'export function Search({ items }) {',
+        '  const open = "(";',
+        '  const pattern = /[{(]/g;',
+        "  const close = ']';",
+        '  const half = items.length / 2;',
+        '  return (',
+        '    <form>',
+        "      <p>Don't type {open} or {close}</p>",
+        '      <input pattern={pattern.source} size={half} />',
+        '    </form>',
+        '  );',
+        '}',
+      ]),
+      [],
+    );
+    assert.deepStrictEqual(
+      messagesOf(['export function Label(props) {', "  return <p>It's {props.text}</p>;", '']),
+      ['`{` opened at line 1 (`export function Label`) is never closed'],
+    );
+  });
+
+  it('✅ Component script blocks should be reported in their own language', () => {
+    const document = createMockDocument(
+      [
+        '<template>',
+        '  <p>{{ label }}</p>',
+        '</template>',
+        '<script lang="ts">',
+        'export default {',
+        '  data() {',
+        "    return { label: '(' };",
+        '  },',
+        '',
+        '</script>',
+      ].join('\n'),
+      'vue',
+    );
+
+    assert.deepStrictEqual(
+      BracketDiagnostics.getDiagnostics(
+        document,
+        DocumentDecorationCacheEntry.parse(document).unfilteredBrackets,
+      ).map((i) => i.message),
+      ['`{` opened at line 5 (`export default`) is never closed'],
+    );
+  });
+});
+
+describe('🚀 Quick Tests - Symbol Headers', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Scopes should be named after the innermost symbol ending at them', () => {
+    const vscode = (global as any).vscode;
+    const range = (startLine: number, startCharacter: number, endLine: number, endCharacter: number) =>
+      new vscode.Range(
+        new vscode.Position(startLine, startCharacter),
+        new vscode.Position(endLine, endCharacter),
+      );
+    const symbol = (name: string, kind: number, symbolRange: any, children: any[] = []): any => ({
+      name,
+      detail: '',
+      kind,
+      range: symbolRange,
+      selectionRange: symbolRange,
+      children,
+    });
+
+    const document = createMockDocument(
+      [
+        'export class UserService {',
+        '  findById(id) {',
+        '    return this.users.find((user) => {',
+        '      const matches = user.id === id;',
+        '      return matches;',
+        '    });',
+        '  }',
+        '}',
+      ].join('\n'),
+    );
+    const resolver = DocumentSymbolHeaders.createResolver([
+      symbol('UserService', vscode.SymbolKind.Class, range(0, 0, 7, 1), [
+        symbol('findById', vscode.SymbolKind.Method, range(1, 2, 6, 3)),
+      ]),
+    ]);
+
+    const headers = BracketDecorationGenerator.getBracketDecorationSource(
+      document,
+      BracketParser.parseBrackets(document),
+      resolver,
+    ).map((i) => i.bracketHeader);
+
+    assert.ok(headers.includes('‹~ #1-8 •class UserService'));
+    assert.ok(headers.includes('‹~ #2-7 •UserService.findById'));
+    assert.ok(
+      headers.some((i) => i.startsWith('‹~ #3-6 •') && !i.includes('UserService')),
+      'Scopes no symbol ends at keep their text header',
+    );
+  });
+});
+
+describe('🚀 Quick Tests - Scope Kinds', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  const classify = (text: string, languageId: string) => {
+    const document = createMockDocument(text, languageId);
+    const brackets = BracketParser.parseBrackets(document);
+    ScopeClassifier.classify(document, brackets);
+
+    const kinds: [string, number, string | undefined][] = [];
+    const visit = (entries: BracketEntry[]) =>
+      entries.forEach((entry) => {
+        kinds.push([entry.start.token, entry.start.position.line, entry.kind]);
+        visit(entry.items);
+      });
+    visit(brackets);
+    return kinds;
+  };
+
+  it('✅ Script scopes should be classified once after parsing', () => {
+    assert.deepStrictEqual(
+      classify(
+        [
+          'export class Store {',
+          '  load(id: string): Promise<void> {',
+          '    if (id) {',
+          '      fetch(',
+          '        id,',
+          '      );',
+          '    }',
+          '    const options = {',
+          '      items: [',
+          '        1,',
+          '      ],',
+          '    };',
+          '  }',
+          '}',
+          'interface Props {',
+          '  label: string;',
+          '}',
+          'const App = () => {',
+          '  return (',
+          '    <div>',
+          '    </div>',
+          '  );',
+          '};',
+        ].join('\n'),
+        'typescriptreact',
+      ),
+      [
+        ['{', 0, 'class'],
+        ['{', 1, 'function'],
+        ['{', 2, 'control-flow'],
+        ['(', 3, 'call'],
+        ['{', 7, 'object'],
+        ['[', 8, 'array'],
+        ['{', 14, 'type'],
+        ['{', 17, 'function'],
+        ['(', 18, 'jsx-element'],
+      ],
+    );
+  });
+
+  it('✅ Keyword and indentation blocks should be classified by their keyword', () => {
+    assert.deepStrictEqual(
+      classify(['def load(id)', '  if id', '    fetch(id)', '  end', 'end'].join('\n'), 'ruby'),
+      [
+        ['def', 0, 'function'],
+        ['if', 1, 'control-flow'],
+      ],
+    );
+    assert.deepStrictEqual(
+      classify(
+        ['class Store:', '    def load(self):', '        for item in self.items:', '            pass'].join('\n'),
+        'python',
+      ).map(([, line, kind]) => [line, kind]),
+      [
+        [0, 'class'],
+        [1, 'function'],
+        [2, 'control-flow'],
+      ],
+    );
+  });
+});
+
+describe('🚀 Quick Tests - Decoration Format', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Decoration text should follow the format template', () => {
+    const document = createMockDocument(
+      [
+        'function render(props) {',
+        '  if (props.visible) {',
+        '    draw(props);',
+        '    log(props);',
+        '  }',
+        '}',
+      ].join('\n'),
+    );
+    const brackets = BracketParser.parseBrackets(document);
+
+    mockConfiguration.format = '{prefix}{lines} lines, depth {depth}, {children} nested •{kind} {header}';
+    try {
+      const headers = BracketDecorationGenerator.getBracketDecorationSource(
+        document,
+        brackets,
+      ).map((i) => i.bracketHeader);
+      assert.ok(headers.some((i) => /^‹~ 6 lines, depth 1, 1 nested •\S/.test(i)), headers.join('\n'));
+      assert.ok(headers.some((i) => /^‹~ 4 lines, depth 2, 0 nested •\S/.test(i)), headers.join('\n'));
+    } finally {
+      delete mockConfiguration.format;
+    }
+
+    assert.strictEqual(
+      BracketDecorationGenerator.formatDecorationText(
+        { prefix: '', start: 3, end: 44, depth: 1, header: 'render', kind: '', symbol: '', children: 0 },
+        '{lines} lines •{header} {unknown}',
+      ),
+      '42 lines •render {unknown}',
+    );
+  });
+});
+
+describe('🚀 Quick Tests - Scope Colors', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  const sources = () => {
+    const document = createMockDocument(
+      [
+        'function render(props) {',
+        '  if (props.visible) {',
+        '    draw(props);',
+        '    log(props);',
+        '  }',
+        '}',
+      ].join('\n'),
+    );
+    return BracketDecorationGenerator.getBracketDecorationSource(document, BracketParser.parseBrackets(document));
+  };
+
+  it('✅ Decorations should be colored by scope kind or nesting depth', () => {
+    mockConfiguration.palette = { function: '#111111', controlFlow: '#222222', depth: ['#333333', '#444444'] };
+    try {
+      mockConfiguration.colorMode = 'kind';
+      let colorOf = getScopeColorResolver();
+      assert.deepStrictEqual(sources().map(colorOf).sort(), ['#111111', '#222222']);
+      assert.strictEqual(colorOf({ kind: 'object', isUnmatchBrackets: true }), '#A13030');
+
+      mockConfiguration.colorMode = 'depth';
+      colorOf = getScopeColorResolver();
+      assert.deepStrictEqual(sources().map(colorOf).sort(), ['#333333', '#444444']);
+      assert.strictEqual(colorOf({ depth: 3 }), '#333333');
+
+      mockConfiguration.colorMode = 'single';
+      colorOf = getScopeColorResolver();
+      assert.strictEqual(new Set(sources().map(colorOf)).size, 1);
+    } finally {
+      delete mockConfiguration.palette;
+      delete mockConfiguration.colorMode;
+    }
+  });
+});
+
+describe('🚀 Quick Tests - Theme Colors', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ The base color should follow the kind of the active theme', async () => {
+    const theme = vscode.window.activeColorTheme as { kind: vscode.ColorThemeKind };
+    try {
+      theme.kind = vscode.ColorThemeKind.Light;
+      await onConfigurationChanged();
+      assert.strictEqual(getCurrentColor(), '#A0A0A0');
+
+      // A color set for every theme applies until the theme has its own
+      mockConfiguration.color = '#222222';
+      await onConfigurationChanged();
+      assert.strictEqual(getCurrentColor(), '#222222');
+
+      mockConfiguration.themeColors = { light: '#123456' };
+      await onConfigurationChanged();
+      assert.strictEqual(getCurrentColor(), '#123456');
+
+      theme.kind = vscode.ColorThemeKind.HighContrast;
+      await onConfigurationChanged();
+      assert.strictEqual(getCurrentColor(), '#222222');
+    } finally {
+      theme.kind = vscode.ColorThemeKind.Dark;
+      delete mockConfiguration.color;
+      delete mockConfiguration.themeColors;
+      await onConfigurationChanged();
+    }
+    assert.strictEqual(getCurrentColor(), '#515151');
+  });
+});
+
+describe('🚀 Quick Tests - Render Options', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Render settings should build a pill-style attachment', () => {
+    mockConfiguration.render = {
+      fontWeight: '600',
+      opacity: 1.5,
+      backgroundColor: '#80808020',
+      borderRadius: '8px',
+      margin: ' ',
+      maxWidth: 10,
+    };
+    try {
+      assert.deepStrictEqual(RenderOptionsBuilder.build('‹~ #1-20 •function render'), {
+        contentText: '‹~ #1-20…',
+        fontStyle: 'italic',
+        fontWeight: '600',
+        backgroundColor: '#80808020',
+        textDecoration: 'none; opacity: 1; border-radius: 8px',
+      });
+    } finally {
+      delete mockConfiguration.render;
+    }
+
+    assert.deepStrictEqual(RenderOptionsBuilder.build('‹~ #1-20 •render'), {
+      contentText: '‹~ #1-20 •render',
+      fontStyle: 'italic',
+    });
+  });
+});
+
+describe('🚀 Quick Tests - Render Modes', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Inlay hints and CodeLens should show the decoration source in their mode only', async () => {
+    const document = createMockDocument(
+      [
+        'function render(props) {',
+        '  draw(props);',
+        '  log(props);',
+        '  save(props);',
+        '  notify(props);',
+        '  return props;',
+        '}',
+      ].join('\n'),
+    );
+    const token = { isCancellationRequested: false } as any;
+    const wholeDocument = { start: { line: 0 }, end: { line: 6 } } as any;
+    const inlayHints = new BracketInlayHintsProvider(() => ({ dispose: () => {} }));
+    const codeLenses = new BracketCodeLensProvider(() => ({ dispose: () => {} }));
+
+    assert.deepStrictEqual(await inlayHints.provideInlayHints(document, wholeDocument, token), []);
+
+    mockConfiguration.renderMode = 'inlayHint';
+    try {
+      const hints = await inlayHints.provideInlayHints(document, wholeDocument, token);
+      assert.strictEqual(hints.length, 1);
+      assert.strictEqual(hints[0].position.line, 6);
+      assert.match(String(hints[0].label), /^‹~ #1-7 •/);
+      assert.deepStrictEqual(await codeLenses.provideCodeLenses(document, token), []);
+
+      mockConfiguration.renderMode = 'codeLens';
+      const lenses = await codeLenses.provideCodeLenses(document, token);
+      assert.strictEqual(lenses.length, 1);
+      assert.strictEqual(lenses[0].command?.title, hints[0].label);
+    } finally {
+      delete mockConfiguration.renderMode;
+    }
+  });
+});
+
+describe('🚀 Quick Tests - Focus Mode', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Focus mode should keep the scopes around the cursor', () => {
+    const document = createMockDocument(
+      [
+        'function render(props) {',
+        '  if (props.visible) {',
+        '    draw(props);',
+        '    log(props);',
+        '  }',
+        '  for (const item of props.items) {',
+        '    draw(item);',
+        '    log(item);',
+        '  }',
+        '}',
+      ].join('\n'),
+    );
+    const brackets = BracketParser.parseBrackets(document);
+    const sources = BracketDecorationGenerator.getBracketDecorationSource(document, brackets);
+    const selections = [{ active: new vscode.Position(6, 4) }] as any;
+    const focusedLines = () =>
+      FocusMode.filterSources(sources, brackets, selections).map((i) => i.range.end.line).sort();
+
+    assert.strictEqual(sources.length, 3);
+    mockConfiguration.focusMode = 'enclosing';
+    try {
+      assert.deepStrictEqual(focusedLines(), [8, 9]);
+
+      mockConfiguration.focusMode = 'enclosingAndChildren';
+      assert.deepStrictEqual(focusedLines(), [4, 8, 9]);
+    } finally {
+      delete mockConfiguration.focusMode;
+    }
+  });
+});
+
+describe('🚀 Quick Tests - Viewport Mode', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Viewport mode should build decorations near the viewport and can hide visible openings', () => {
+    const body = ['  draw(props);', '  log(props);', '  save(props);', '  notify(props);'];
+    const document = createMockDocument(
+      ['function render(props) {', ...body, '}', '', 'function update(props) {', ...body, '}'].join('\n'),
+    );
+    const brackets = BracketParser.parseBrackets(document);
+    const documentCache = { brackets, decorationSource: [] } as any;
+    const editorAt = (start: number, end: number) =>
+      ({
+        visibleRanges: [new vscode.Range(new vscode.Position(start, 0), new vscode.Position(end, 0))],
+        selections: [],
+      }) as any;
+    const shownLines = (editor: any) =>
+      BracketLynx.getShownSources(document, documentCache, editor).map((i) => i.range.end.line);
+
+    const lazy = BracketDecorationGenerator.getBracketDecorationSource(document, brackets, undefined, {
+      start: 7,
+      end: 13,
+    });
+    assert.deepStrictEqual(lazy.map((i) => i.openingLine), [7]);
+
+    mockConfiguration.viewportMode = 'offscreenOpenings';
+    try {
+      // Decorations within a screen of the viewport are ready before they scroll in
+      assert.deepStrictEqual(shownLines(editorAt(9, 12)), [5, 12]);
+      assert.deepStrictEqual(shownLines(editorAt(7, 12)), [5]);
+
+      mockConfiguration.viewportMode = 'visible';
+      assert.deepStrictEqual(shownLines(editorAt(7, 12)), [5, 12]);
+    } finally {
+      delete mockConfiguration.viewportMode;
+    }
+  });
+});
+
+describe('🚀 Quick Tests - Update Modes', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Manual mode should decorate on request until the next edit', () => {
+    const document = createMockDocument('function render() {}');
+    mockConfiguration.mode = 'manual';
+    try {
+      assert.strictEqual(UpdateMode.canDecorate(document), false);
+      UpdateMode.requestDecoration(document);
+      assert.strictEqual(UpdateMode.canDecorate(document), true);
+
+      assert.strictEqual(UpdateMode.onDidEdit(document, () => {}), true);
+      assert.strictEqual(UpdateMode.canDecorate(document), false);
+      assert.strictEqual(UpdateMode.onDidEdit(document, () => {}), false);
+    } finally {
+      delete mockConfiguration.mode;
+      UpdateMode.forget(document);
+    }
+  });
+
+  it('✅ Off-while-typing mode should hide decorations until typing pauses', async () => {
+    const document = createMockDocument('function render() {}');
+    mockConfiguration.mode = 'off-while-typing';
+    try {
+      assert.strictEqual(UpdateMode.refreshesOnEdit, false);
+      let paused = 0;
+      const resumed = new Promise<void>((resolve) => {
+        // Only the first edit of the burst hides them
+        assert.strictEqual(UpdateMode.onDidEdit(document, () => paused++), true);
+        assert.strictEqual(UpdateMode.onDidEdit(document, () => (paused++, resolve())), false);
+      });
+      assert.strictEqual(UpdateMode.canDecorate(document), false);
+
+      await resumed;
+      assert.strictEqual(paused, 1);
+      assert.strictEqual(UpdateMode.canDecorate(document), true);
+    } finally {
+      delete mockConfiguration.mode;
+      UpdateMode.forget(document);
+    }
+  });
+});
+
+describe('🚀 Quick Tests - Decoration Queue', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  // Editors A and B; the first update stays running until `finishFirst` is called
+  const createQueue = () => {
+    const editorA: any = { document: createMockDocument('function a() {}', 'javascript', 1) };
+    const editorB: any = { document: createMockDocument('function b() {}', 'typescript', 1) };
+    const runs: { name: string; token: vscode.CancellationToken }[] = [];
+    let finishFirst = () => {};
+    let onRun = () => {};
+    const queue = new DecorationQueue((editor, token) => {
+      runs.push({ name: `${editor === editorA ? 'A' : 'B'}@${editor.document.version}`, token });
+      onRun();
+      return runs.length === 1 ? new Promise<void>((resolve) => (finishFirst = resolve)) : Promise.resolve();
+    });
+    const waitForRuns = (count: number) =>
+      new Promise<void>((resolve) => {
+        onRun = () => runs.length >= count && resolve();
+        onRun();
+      });
+    return { queue, editorA, editorB, runs, waitForRuns, finish: () => finishFirst() };
+  };
+
+  it('✅ An update for another editor should run after the one in progress', async () => {
+    const { queue, editorA, editorB, runs, waitForRuns, finish } = createQueue();
+    queue.enqueue(editorA);
+    await waitForRuns(1);
+
+    queue.enqueue(editorB);
+    assert.strictEqual(runs[0].token.isCancellationRequested, false);
+    finish();
+    await waitForRuns(2);
+    assert.deepStrictEqual(runs.map((i) => i.name), ['A@1', 'B@1']);
+  });
+
+  it('✅ A newer document version should cancel the running update', async () => {
+    const { queue, editorA, editorB, runs, waitForRuns, finish } = createQueue();
+    queue.enqueue(editorA);
+    await waitForRuns(1);
+
+    queue.enqueue(editorB);
+    editorA.document = createMockDocument('function a() {\n}', 'javascript', 2);
+    queue.enqueue(editorA);
+    assert.strictEqual(runs[0].token.isCancellationRequested, true);
+
+    finish();
+    await waitForRuns(3);
+    assert.deepStrictEqual(runs.map((i) => i.name), ['A@1', 'B@1', 'A@2']);
+  });
+});
+
+describe('🚀 Quick Tests - Status Bar', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Status bar should show the decoration count and why a file is skipped', () => {
+    const editor = { document: createMockDocument('function render() {\n  draw();\n}') } as any;
+    const state = BracketLynxStatusBar.getState(editor);
+    assert.strictEqual(state.text, '$(bracket) 0');
+    assert.ok(state.tooltip.includes('Performance mode: normal'));
+    assert.ok(!state.tooltip.includes('Skipped'));
+
+    const minified = { document: createMockDocument(`var a=[${'1,'.repeat(400)}1];`, 'javascript', 2) } as any;
+    const skipped = BracketLynxStatusBar.getState(minified);
+    assert.strictEqual(skipped.text, '$(warning) Lynx');
+    assert.ok(skipped.tooltip.includes('Skipped: Likely minified file'));
+  });
+
+  it('✅ Files on the original parser should not be reported as filtered', () => {
+    const editor = {
+      document: createMockDocument(`matrix = [${'1, '.repeat(400)}1]\nprint(matrix)`, 'python'),
+    } as any;
+    const state = BracketLynxStatusBar.getState(editor);
+    assert.strictEqual(state.text, '$(bracket) 0');
+    assert.ok(!state.tooltip.includes('Skipped'));
+  });
+});
+
+describe('🚀 Quick Tests - Performance Filter Overrides', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Decorated-anyway files and raised thresholds should not be skipped', () => {
+    const longLine = `  draw(${'1,'.repeat(400)}1);`;
+    const document = createMockDocument(
+      ['function render() {', ...Array(6).fill(longLine), '}'].join('\n'),
+      'javascript',
+      3,
+    );
+    const parser = OptimizedBracketParser.getInstance();
+    assert.strictEqual(parser.getPerformanceFilter(document).shouldSkip, true);
+
+    try {
+      mockConfiguration.minifiedLineLength = 1000;
+      assert.strictEqual(parser.getPerformanceFilter(document).shouldSkip, false);
+      assert.strictEqual(
+        parser.getPerformanceFilter({ ...document, fileName: 'schema.generated.js' }).shouldSkip,
+        false,
+      );
+
+      mockConfiguration.minifiedFileSuffixes = ['.generated.js'];
+      assert.strictEqual(
+        parser.getPerformanceFilter({ ...document, fileName: 'schema.generated.js' }).shouldSkip,
+        true,
+      );
+      delete mockConfiguration.minifiedLineLength;
+
+      mockConfiguration.forceDecoratedFiles = [document.uri.toString()];
+      assert.strictEqual(parser.getPerformanceFilter(document).shouldSkip, false);
+      assert.strictEqual(parser.parseBrackets(document).length, 1);
+    } finally {
+      delete mockConfiguration.minifiedLineLength;
+      delete mockConfiguration.minifiedFileSuffixes;
+      delete mockConfiguration.forceDecoratedFiles;
+      parser.clearAllCache();
+    }
+  });
+});
+
+describe('🚀 Quick Tests - Adaptive Performance Mode', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Slow updates should step a file down to stricter filters and fast ones back up', () => {
+    const parser = OptimizedBracketParser.getInstance();
+    const document = createMockDocument('function render() {\n  draw();\n}', 'javascript', 4);
+    const uri = document.uri.toString();
+    const modes = () => [parser.getAdaptiveMode(uri), parser.getPerformanceFilter(document).performanceMode];
+
+    mockConfiguration.updateTimeBudget = 20;
+    try {
+      parser.recordUpdateTime(uri, 5);
+      assert.deepStrictEqual(modes(), ['normal', 'normal']);
+
+      parser.recordUpdateTime(uri, 50);
+      assert.deepStrictEqual(modes(), ['performance', 'performance']);
+      parser.recordUpdateTime(uri, 50);
+      assert.deepStrictEqual(modes(), ['minimal', 'minimal']);
+      assert.strictEqual(parser.getPerformanceStats().adaptiveModes[uri].lastTime, 50);
+
+      // Between half the budget and the budget, the mode holds
+      parser.recordUpdateTime(uri, 15);
+      assert.strictEqual(parser.getAdaptiveMode(uri), 'minimal');
+      parser.recordUpdateTime(uri, 1);
+      assert.strictEqual(parser.getAdaptiveMode(uri), 'performance');
+      parser.recordUpdateTime(uri, 1);
+      assert.strictEqual(parser.getAdaptiveMode(uri), 'normal');
+
+      parser.recordUpdateTime(uri, 50);
+      mockConfiguration.updateTimeBudget = 0;
+      assert.deepStrictEqual(modes(), ['normal', 'normal']);
+    } finally {
+      delete mockConfiguration.updateTimeBudget;
+      parser.setAdaptiveMode(uri, 'normal');
+    }
+  });
+});
+
+describe('🚀 Quick Tests - Time-Sliced Parsing', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ A sliced parse should report the scopes closed so far and end like a single pass', () => {
+    const source = Array.from(
+      { length: 60 },
+      (_, i) => `function step${i}() {\n  const a = [1, 2];\n  const b = { c: 3 };\n  call(a, b);\n  call(b, a);\n  call(a, a);\n}`
+    ).join('\n');
+    const document = createMockDocument(source, 'javascript');
+
+    const reports: { offset: number; brackets: BracketEntry[] }[] = [];
+    const work = DocumentDecorationCacheEntry.parseInSlices(document);
+    let step = work.next();
+    while (!step.done) {
+      // Reports describe the parse at the moment they are made
+      if (step.value) {
+        reports.push({ offset: step.value.offset, brackets: step.value.brackets() });
+      }
+      step = work.next();
+    }
+
+    const scans = reports.filter((report) => report.offset < source.length);
+    assert.ok(scans.length > 1, 'the bracket scan should report more than once');
+    scans.forEach((report) => {
+      assert.ok(report.brackets.length > 0);
+      report.brackets.forEach((entry) => assert.ok(document.offsetAt(entry.end.position) <= report.offset));
+    });
+    assert.strictEqual(reports[reports.length - 1].brackets.length, 60);
+    assert.deepStrictEqual(step.value.decorationSource, DocumentDecorationCacheEntry.parse(document).decorationSource);
+  });
+
+  it('✅ The slicer should report progress past its budget and stop when asked', async () => {
+    const endless = function* (): SlicedWork<number, string> {
+      while (true) {
+        yield 'progress';
+      }
+    };
+    let progressCount = 0;
+    const stopped = await TimeSlicer.run(endless(), {
+      budget: 1,
+      shouldStop: () => true,
+      onProgress: () => progressCount++,
+    });
+    assert.strictEqual(stopped, undefined);
+    assert.ok(progressCount > 0);
+
+    const countdown = function* (): SlicedWork<number, ParseProgress> {
+      for (let i = 0; i < 1000; i++) {
+        yield;
+      }
+      return 42;
+    };
+    const finished = await TimeSlicer.run(countdown(), { budget: 0 });
+    assert.strictEqual(finished?.value, 42);
+    assert.strictEqual(TimeSlicer.runSync(countdown()), 42);
+  });
+});
+
+describe('🚀 Quick Tests - Comments In Scopes', function () {
+  this.timeout(TEST_CONFIG.QUICK_TIMEOUT);
+
+  it('✅ Scopes holding comments should be decorated, and commented-out code should not', () => {
+    const decoratedLines = (source: string, languageId: string) => {
+      const document = createMockDocument(source, languageId);
+      const brackets = OptimizedBracketParser.getInstance().shouldUseOriginalParser(document)
+        ? BracketParser.parseBrackets(document)
+        : OptimizedBracketParser.getInstance().parseBrackets(document);
+      return BracketDecorationGenerator.getBracketDecorationSource(document, brackets).map((i) => i.range.start.line);
+    };
+
+    const script = [
+      'function withNote() {',
+      '  // note',
+      '  first();',
+      '  second(); /* aside */',
+      '  third();',
+      '  fourth();',
+      '}',
+      '/* function commentedOut() {',
+      '  first();',
+      '  second();',
+      '  third();',
+      '  fourth();',
+      '} */',
+      '// function lineCommented() {',
+      '//   first();',
+      '//   second();',
+      '//   third();',
+      '// }',
+    ].join('\n');
+    assert.deepStrictEqual(decoratedLines(script, 'javascript'), [6]);
+
+    const python = [
+      'def with_note():',
+      '    # note',
+      '    first()',
+      '    second()',
+      '    third()',
+      '# def commented_out():',
+      '#     first()',
+      '#     second()',
+      '#     third()',
+      'value = 1',
+    ].join('\n');
+    assert.deepStrictEqual(decoratedLines(python, 'python'), [4]);
+  });
+});
+
 // =============================================================================
 // INTEGRATION TESTS - Component Integration
 // =============================================================================
@@ -1,6 +1,9 @@
 // Test setup and VSCode mocking utilities
 // This file provides all necessary mocks and utilities for testing
 
+// Settings a test wants to override, read before the defaults below
+export const mockConfiguration: Record<string, any> = {};
+
 // Mock VSCode API with essential functionality
 const mockVscode = {
   Range: class MockRange {
@@ -17,6 +20,18 @@ const mockVscode = {
       public line: number,
       public character: number,
     ) {}
+    compareTo(other: MockPosition): number {
+      return this.line - other.line || this.character - other.character;
+    }
+    isBefore(other: MockPosition): boolean {
+      return this.compareTo(other) < 0;
+    }
+    isAfter(other: MockPosition): boolean {
+      return this.compareTo(other) > 0;
+    }
+    isEqual(other: MockPosition): boolean {
+      return this.compareTo(other) === 0;
+    }
   },
 
   Uri: {
@@ -25,15 +40,118 @@ const mockVscode = {
 
   EndOfLine: { LF: 1, CRLF: 2 },
 
+  CancellationTokenSource: class MockCancellationTokenSource {
+    token = { isCancellationRequested: false };
+    cancel() {
+      this.token.isCancellationRequested = true;
+    }
+    dispose() {}
+  },
+
+  DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+
+  Diagnostic: class MockDiagnostic {
+    source?: string;
+    code?: string | number;
+    relatedInformation?: any[];
+    constructor(
+      public range: any,
+      public message: string,
+      public severity: number,
+    ) {}
+  },
+
+  DiagnosticRelatedInformation: class MockDiagnosticRelatedInformation {
+    constructor(
+      public location: any,
+      public message: string,
+    ) {}
+  },
+
+  Location: class MockLocation {
+    constructor(
+      public uri: any,
+      public range: any,
+    ) {}
+  },
+
+  // A numeric enum, so kinds map back to their names too
+  SymbolKind: Object.fromEntries(
+    Object.entries({ Module: 1, Namespace: 2, Class: 4, Method: 5, Property: 6, Constructor: 8, Enum: 9, Interface: 10, Function: 11, Variable: 12, Struct: 22 })
+      .flatMap(([name, value]) => [[name, value], [value, name]]),
+  ),
+
+  InlayHint: class MockInlayHint {
+    paddingLeft?: boolean;
+    constructor(
+      public position: any,
+      public label: string,
+    ) {}
+  },
+
+  CodeLens: class MockCodeLens {
+    constructor(
+      public range: any,
+      public command?: any,
+    ) {}
+  },
+
+  ColorThemeKind: { Light: 1, Dark: 2, HighContrast: 3, HighContrastLight: 4 },
+
+  CodeActionKind: { QuickFix: 'quickfix' },
+
+  CodeAction: class MockCodeAction {
+    edit?: any;
+    diagnostics?: any[];
+    isPreferred?: boolean;
+    constructor(
+      public title: string,
+      public kind: string,
+    ) {}
+  },
+
+  WorkspaceEdit: class MockWorkspaceEdit {
+    edits: { range: any; newText: string }[] = [];
+    insert(_uri: any, position: any, newText: string) {
+      this.edits.push({ range: { start: position, end: position }, newText });
+    }
+    replace(_uri: any, range: any, newText: string) {
+      this.edits.push({ range, newText });
+    }
+  },
+
   window: {
     showInformationMessage: () => Promise.resolve(),
     showErrorMessage: () => Promise.resolve(),
     createTextEditorDecorationType: () => ({ key: 'mock', dispose: () => {} }),
+    visibleTextEditors: [] as any[],
+    activeColorTheme: { kind: 2 },
+  },
+
+  commands: {
+    executeCommand: () => Promise.resolve(undefined),
+  },
+
+  languages: {
+    createDiagnosticCollection: () => {
+      const entries = new Map<string, any[]>();
+      return {
+        set: (uri: any, diagnostics: any[]) => entries.set(uri.toString(), diagnostics),
+        get: (uri: any) => entries.get(uri.toString()),
+        delete: (uri: any) => entries.delete(uri.toString()),
+        clear: () => entries.clear(),
+        dispose: () => entries.clear(),
+      };
+    },
+  },
+
+  extensions: {
+    all: [] as any[],
   },
 
   workspace: {
     getConfiguration: () => ({
-      get: (key: string) => {
+      get: (key: string, defaultValue?: any) => {
         const defaults: Record<string, any> = {
           prefix: '‹~ ',
           color: '#515151',
@@ -47,8 +165,14 @@ const mockVscode = {
           disabledFiles: [],
           individuallyEnabledFiles: [],
         };
-        return defaults[key] || defaults[key.replace('bracketLynx.', '')];
+        return (
+          mockConfiguration[key] ??
+          defaults[key] ??
+          defaults[key.replace('bracketLynx.', '')] ??
+          defaultValue
+        );
       },
+      inspect: (key: string) => (key in mockConfiguration ? { globalValue: mockConfiguration[key] } : undefined),
     }),
   },
 };
@@ -71,15 +195,36 @@ Module.prototype.require = function (id: string) {
 export const createMockDocument = (
   text: string,
   languageId: string = 'javascript',
+  version: number = 1,
 ): any => {
   const lines = text.split('\n');
+  const lineStarts = [0];
+  lines.forEach((line, index) =>
+    lineStarts.push(lineStarts[index] + line.length + 1),
+  );
+  const offsetAt = (position: any) =>
+    Math.min(lineStarts[position.line] + position.character, text.length);
+  const positionAt = (offset: number) => {
+    const clamped = Math.max(0, Math.min(offset, text.length));
+    let line = 0;
+    while (line < lines.length - 1 && lineStarts[line + 1] <= clamped) {
+      line++;
+    }
+    return new mockVscode.Position(line, clamped - lineStarts[line]);
+  };
   return {
     languageId,
-    getText: () => text,
+    getText: (range?: any) =>
+      range ? text.slice(offsetAt(range.start), offsetAt(range.end)) : text,
     fileName: `test.${languageId}`,
     lineCount: lines.length,
-    uri: { fsPath: `/test.${languageId}` },
-    version: 1,
+    uri: {
+      fsPath: `/test.${languageId}`,
+      toString: () => `file:///test.${languageId}`,
+    },
+    version,
+    offsetAt,
+    positionAt,
     isDirty: false,
     isClosed: false,
     isUntitled: false,
@@ -2,15 +2,68 @@ import * as vscode from 'vscode';
 import { isExtensionEnabled } from './toggle';
 
 // CONFIGURATION CONSTANTS
-const DEFAULT_COLOR = '#515151';
+// Base colors for each kind of theme, used until the user picks their own
+const DEFAULT_THEME_COLORS: ThemeColors = {
+  dark: '#515151',
+  light: '#A0A0A0',
+  highContrast: '#BDBDBD',
+  highContrastLight: '#595959',
+};
 const DECORATION_CLEAR_DELAY = 50;
 const INITIALIZATION_DELAY = 100;
 
+// Colors for `bracketLynx.colorMode` "kind" and "depth"; `bracketLynx.palette` overrides them one by one
+const DEFAULT_PALETTE: ColorPalette = {
+  function: '#4A6FA5',
+  class: '#7D5BA6',
+  controlFlow: '#9D7F4A',
+  collection: '#4F7F6B',
+  unmatched: '#A13030',
+  depth: ['#515151', '#4A6FA5', '#7D5BA6', '#4F7F6B', '#9D7F4A'],
+};
+
 // INTERFACES
 interface ColorOption extends vscode.QuickPickItem {
   value: string;
 }
 
+export interface ThemeColors {
+  light: string;
+  dark: string;
+  highContrast: string;
+  highContrastLight: string;
+}
+
+export type ThemeKind = keyof ThemeColors;
+
+export type ColorMode = 'single' | 'kind' | 'depth';
+
+export interface ColorPalette {
+  function: string;
+  class: string;
+  controlFlow: string;
+  collection: string;
+  unmatched: string;
+  // Cycled through by nesting depth, the first one for top-level scopes
+  depth: string[];
+}
+
+export type PaletteSlot = Exclude<keyof ColorPalette, 'depth'>;
+
+// A place the color picker can edit: the base color, a palette slot or a depth level (0-based)
+export type ColorSlot = 'base' | PaletteSlot | number;
+
+export interface ScopeColorInfo {
+  kind?: string;
+  // 1 for a top-level scope
+  depth?: number;
+  isUnmatchBrackets?: boolean;
+}
+
+interface ColorSlotOption extends vscode.QuickPickItem {
+  slot: ColorSlot | 'mode';
+}
+
 export interface IBracketLynxProvider {
   clearAllDecorations(): void;
   updateAllDecoration(): void;
@@ -22,7 +75,10 @@ export interface IBracketLynxProvider {
 // STATE VARIABLES
 let bracketLynxProvider: IBracketLynxProvider | undefined = undefined;
 let frameworksDecorator: any = undefined;
-let currentColor: string = DEFAULT_COLOR;
+let currentColor: string = DEFAULT_THEME_COLORS.dark;
+// Palette colors shown while the picker previews them, before they are saved
+const previewColors = new Map<ColorSlot, string>();
+let lastPaletteSignature: string | undefined = undefined;
 
 // PROVIDER SETTERS
 export function setBracketLynxProviderForColors(provider: IBracketLynxProvider): void {
@@ -64,24 +120,98 @@ export function changeDecorationColor(): void {
     return;
   }
 
-  const config = vscode.workspace.getConfiguration('bracketLynx');
-  const originalColor = config.get('color', '#515151');
+  vscode.window
+    .showQuickPick(getColorSlotOptions(), { placeHolder: 'Choose which color to change' })
+    .then(async (selected) => {
+      if (!selected) {
+        return;
+      }
+      if (selected.slot === 'mode') {
+        await changeColorMode();
+        return;
+      }
+      showColorPicker(selected.slot);
+    });
+}
+
+function getColorSlotOptions(): ColorSlotOption[] {
+  const mode = getColorMode();
+  const palette = getPalette();
+  const option = (slot: ColorSlot, label: string, color: string): ColorSlotOption => ({
+    label,
+    description: color,
+    slot,
+  });
+
+  const options: ColorSlotOption[] = [
+    { label: `🎛️ Color Mode: ${mode}`, description: 'Single color, by scope kind or by nesting depth', slot: 'mode' },
+    {
+      ...option('base', mode === 'single' ? '⚫ Decoration Color' : '⚫ Other Scopes', currentColor),
+      detail: `Saved for ${getThemeLabel(getThemeKind())}`,
+    },
+  ];
+  if (mode === 'kind') {
+    options.push(
+      option('function', '🔧 Functions', palette.function),
+      option('class', '🏛️ Classes & Types', palette.class),
+      option('controlFlow', '🔀 Control Flow', palette.controlFlow),
+      option('collection', '📦 Objects & Arrays', palette.collection)
+    );
+  }
+  if (mode === 'depth') {
+    // Every scope has a depth, so the base color is not used
+    options.splice(1, 1);
+    palette.depth.forEach((color, index) => options.push(option(index, `🌈 Depth ${index + 1}`, color)));
+  }
+  if (mode !== 'single') {
+    options.push(option('unmatched', '❗ Unmatched Brackets', palette.unmatched));
+  }
+  return options;
+}
+
+async function changeColorMode(): Promise<void> {
+  const modes: (vscode.QuickPickItem & { mode: ColorMode })[] = [
+    { label: 'Single', description: 'One color for every decoration', mode: 'single' },
+    { label: 'Kind', description: 'Functions, classes, control flow, collections and unmatched brackets', mode: 'kind' },
+    { label: 'Depth', description: 'A rainbow of colors by nesting depth', mode: 'depth' },
+  ];
+  const selected = await vscode.window.showQuickPick(modes, { placeHolder: `Color mode (current: ${getColorMode()})` });
+  if (!selected) {
+    return;
+  }
+
+  try {
+    await vscode.workspace
+      .getConfiguration('bracketLynx')
+      .update('colorMode', selected.mode, vscode.ConfigurationTarget.Global);
+    await recreateAllBracketLynxDecorations();
+    // Straight back to the menu, which now lists the new mode's colors
+    changeDecorationColor();
+  } catch (error) {
+    console.error('🎨 Error changing color mode:', error);
+    vscode.window.showErrorMessage('🎨 Failed to change color mode');
+  }
+}
+
+function showColorPicker(slot: ColorSlot): void {
+  const slotLabel = getSlotLabel(slot);
+  const originalColor = getSlotColor(slot);
 
   const quickPick = vscode.window.createQuickPick<ColorOption>();
   quickPick.items = getAvailableColors();
-  quickPick.placeholder = 'Choose a color for bracket decorations';
+  quickPick.placeholder = `Choose a color for ${slotLabel.toLowerCase()}`;
   quickPick.canSelectMany = false;
 
   let previewState: { isActive: boolean; originalColor: string } = {
     isActive: false,
-    originalColor: currentColor,
+    originalColor,
   };
 
   const applyColorToDecorations = async (color: string, isPreview: boolean = false): Promise<boolean> => {
     try {
       if (isPreview && !previewState.isActive) {
-        previewState = { isActive: true, originalColor: currentColor };
-        console.log(`🎨 Starting color preview: ${color} (was: ${currentColor})`);
+        previewState = { isActive: true, originalColor };
+        console.log(`🎨 Starting color preview: ${color} (was: ${originalColor})`);
       }
 
       if (!isPreview) {
@@ -89,10 +219,10 @@ export function changeDecorationColor(): void {
         console.log(`🎨 Applying final color: ${color}`);
       }
 
-      currentColor = color;
+      setSlotColor(slot, color);
 
       if (bracketLynxProvider && isExtensionEnabled()) {
-        await recreateAllBracketLynxDecorations(color);
+        await recreateAllBracketLynxDecorations();
         console.log(`🎨 Color ${isPreview ? 'preview' : 'application'} completed successfully`);
         return true;
       } else {
@@ -108,8 +238,8 @@ export function changeDecorationColor(): void {
       // Try to restore previous state on error
       if (isPreview && previewState.isActive) {
         try {
-          currentColor = previewState.originalColor;
-          await recreateAllBracketLynxDecorations(previewState.originalColor);
+          restoreSlotColor(slot, previewState.originalColor);
+          await recreateAllBracketLynxDecorations();
           console.log('🎨 Restored original color after error');
         } catch (restoreError) {
           console.error('🎨 Failed to restore original color:', restoreError);
@@ -124,9 +254,9 @@ export function changeDecorationColor(): void {
     if (previewState.isActive) {
       try {
         console.log(`🎨 Restoring original color: ${previewState.originalColor}`);
-        currentColor = previewState.originalColor;
+        restoreSlotColor(slot, previewState.originalColor);
         previewState.isActive = false;
-        await recreateAllBracketLynxDecorations(previewState.originalColor);
+        await recreateAllBracketLynxDecorations();
         console.log('🎨 Original color restored successfully');
       } catch (error) {
         console.error('🎨 Error restoring original color:', error);
@@ -162,7 +292,7 @@ export function changeDecorationColor(): void {
       quickPick.hide();
 
       const customColor = await vscode.window.showInputBox({
-        prompt: 'Enter hex color for bracket decorations',
+        prompt: `Enter hex color for ${slotLabel.toLowerCase()}`,
         placeHolder: '#ffffff (example: #ff6b6b, #00ff00, #3498db)',
         value: originalColor,
         validateInput: (value) => {
@@ -185,8 +315,8 @@ export function changeDecorationColor(): void {
 
       const success = await applyColorToDecorations(customColor, false);
       if (success) {
-        await saveColorToConfiguration(customColor);
-        vscode.window.showInformationMessage(`🎨 Bracket Lynx: Color changed to ${customColor}`);
+        await saveSlotColor(slot, customColor);
+        vscode.window.showInformationMessage(`🎨 Bracket Lynx: ${slotLabel} changed to ${customColor}`);
       } else {
         vscode.window.showErrorMessage('🎨 Failed to change color');
         await restoreOriginalColor();
@@ -197,8 +327,8 @@ export function changeDecorationColor(): void {
       const finalColor = selectedItem.value;
       const success = await applyColorToDecorations(finalColor, false);
       if (success) {
-        await saveColorToConfiguration(finalColor);
-        vscode.window.showInformationMessage(`🎨 Bracket Lynx: Color changed to ${selectedItem.label}`);
+        await saveSlotColor(slot, finalColor);
+        vscode.window.showInformationMessage(`🎨 Bracket Lynx: ${slotLabel} changed to ${selectedItem.label}`);
       } else {
         vscode.window.showErrorMessage('🎨 Failed to change color');
         await restoreOriginalColor();
@@ -277,21 +407,40 @@ async function recreateAllBracketLynxDecorations(overrideColor?: string): Promis
 // ============================================================================
 // CONFIGURATION MANAGEMENT
 // ============================================================================
+/**
+ * Save the base color for the kind of theme in use; other kinds of themes keep theirs
+ */
 async function saveColorToConfiguration(color: string): Promise<void> {
   const config = vscode.workspace.getConfiguration('bracketLynx');
+  const themeColors = config.get<Partial<ThemeColors>>('themeColors', {}) ?? {};
   try {
-    await config.update('color', color, vscode.ConfigurationTarget.Global);
+    await config.update(
+      'themeColors',
+      { ...themeColors, [getThemeKind()]: color },
+      vscode.ConfigurationTarget.Global
+    );
   } catch (error) {
     console.warn(`🎨 Failed to save color to configuration:`, error);
     throw error;
   }
 }
 
+/**
+ * The base color for the active theme: its `bracketLynx.themeColors` entry, then
+ * `bracketLynx.color` if the user has set one, then the default for that kind of theme
+ */
 function loadColorFromConfiguration(): string {
+  const themeKind = getThemeKind();
   try {
     const config = vscode.workspace.getConfiguration('bracketLynx');
-    const savedColor = config.get<string>('color');
+    const themeColor = config.get<Partial<ThemeColors>>('themeColors', {})?.[themeKind];
+    if (themeColor && isValidHexColor(themeColor)) {
+      return themeColor;
+    }
 
+    // The `color` default is only right for dark themes, so it counts only once set
+    const color = config.inspect<string>('color');
+    const savedColor = color?.workspaceFolderValue ?? color?.workspaceValue ?? color?.globalValue;
     if (savedColor && isValidHexColor(savedColor)) {
       return savedColor;
     }
@@ -299,7 +448,181 @@ function loadColorFromConfiguration(): string {
     console.warn('🎨 Could not load color from configuration:', error);
   }
 
-  return DEFAULT_COLOR;
+  return DEFAULT_THEME_COLORS[themeKind];
+}
+
+// ============================================================================
+// THEMES
+// ============================================================================
+export function getThemeKind(): ThemeKind {
+  switch (vscode.window.activeColorTheme?.kind) {
+    case vscode.ColorThemeKind.Light:
+      return 'light';
+    case vscode.ColorThemeKind.HighContrast:
+      return 'highContrast';
+    case vscode.ColorThemeKind.HighContrastLight:
+      return 'highContrastLight';
+    default:
+      return 'dark';
+  }
+}
+
+function getThemeLabel(themeKind: ThemeKind): string {
+  switch (themeKind) {
+    case 'light':
+      return 'light themes';
+    case 'highContrast':
+      return 'high contrast themes';
+    case 'highContrastLight':
+      return 'high contrast light themes';
+    default:
+      return 'dark themes';
+  }
+}
+
+// ============================================================================
+// PALETTE
+// ============================================================================
+export function getColorMode(): ColorMode {
+  const mode = vscode.workspace.getConfiguration('bracketLynx').get<string>('colorMode', 'single');
+  return mode === 'kind' || mode === 'depth' ? mode : 'single';
+}
+
+/**
+ * The configured palette over the defaults, with any colors being previewed on top
+ */
+export function getPalette(): ColorPalette {
+  const configured = vscode.workspace.getConfiguration('bracketLynx').get<Partial<ColorPalette>>('palette', {});
+  const pick = (slot: PaletteSlot): string => {
+    const color = previewColors.get(slot) ?? configured?.[slot];
+    return color && isValidHexColor(color) ? color : DEFAULT_PALETTE[slot];
+  };
+
+  const configuredDepth = Array.isArray(configured?.depth)
+    ? configured.depth.filter((color) => isValidHexColor(color))
+    : [];
+  const depth = (configuredDepth.length > 0 ? configuredDepth : DEFAULT_PALETTE.depth).map(
+    (color, index) => previewColors.get(index) ?? color
+  );
+
+  return {
+    function: pick('function'),
+    class: pick('class'),
+    controlFlow: pick('controlFlow'),
+    collection: pick('collection'),
+    unmatched: pick('unmatched'),
+    depth,
+  };
+}
+
+/**
+ * Resolve the mode and palette once, for coloring a whole batch of decorations
+ */
+export function getScopeColorResolver(): (scope: ScopeColorInfo) => string {
+  const mode = getColorMode();
+  const baseColor = currentColor;
+  if (mode === 'single') {
+    return () => baseColor;
+  }
+
+  const palette = getPalette();
+  return (scope) => {
+    if (scope.isUnmatchBrackets) {
+      return palette.unmatched;
+    }
+    if (mode === 'depth') {
+      const depth = Math.max(scope.depth ?? 1, 1);
+      return palette.depth[(depth - 1) % palette.depth.length];
+    }
+    switch (scope.kind) {
+      case 'function':
+        return palette.function;
+      case 'class':
+      case 'type':
+        return palette.class;
+      case 'control-flow':
+        return palette.controlFlow;
+      case 'object':
+      case 'array':
+        return palette.collection;
+      default:
+        return baseColor;
+    }
+  };
+}
+
+function getSlotLabel(slot: ColorSlot): string {
+  switch (slot) {
+    case 'base':
+      return `${getColorMode() === 'single' ? 'Decoration color' : 'Color of other scopes'} for ${getThemeLabel(getThemeKind())}`;
+    case 'function':
+      return 'Function color';
+    case 'class':
+      return 'Class and type color';
+    case 'controlFlow':
+      return 'Control flow color';
+    case 'collection':
+      return 'Object and array color';
+    case 'unmatched':
+      return 'Unmatched bracket color';
+    default:
+      return `Depth ${slot + 1} color`;
+  }
+}
+
+function getSlotColor(slot: ColorSlot): string {
+  if (slot === 'base') {
+    return currentColor;
+  }
+  const palette = getPalette();
+  return typeof slot === 'number' ? palette.depth[slot] : palette[slot];
+}
+
+function setSlotColor(slot: ColorSlot, color: string): void {
+  if (slot === 'base') {
+    currentColor = color;
+  } else {
+    previewColors.set(slot, color);
+  }
+}
+
+function restoreSlotColor(slot: ColorSlot, originalColor: string): void {
+  if (slot === 'base') {
+    currentColor = originalColor;
+  } else {
+    previewColors.delete(slot);
+  }
+}
+
+async function saveSlotColor(slot: ColorSlot, color: string): Promise<void> {
+  if (slot === 'base') {
+    await saveColorToConfiguration(color);
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration('bracketLynx');
+  const configured = config.get<Partial<ColorPalette>>('palette', {}) ?? {};
+  const updated: Partial<ColorPalette> = { ...configured };
+  if (typeof slot === 'number') {
+    // Save the whole list, so the other levels keep the colors they were shown with
+    const depth = [...getPalette().depth];
+    depth[slot] = color;
+    updated.depth = depth;
+  } else {
+    updated[slot] = color;
+  }
+
+  try {
+    await config.update('palette', updated, vscode.ConfigurationTarget.Global);
+    previewColors.delete(slot);
+  } catch (error) {
+    console.warn(`🎨 Failed to save palette to configuration:`, error);
+    throw error;
+  }
+}
+
+function getPaletteSignature(): string {
+  return JSON.stringify([getColorMode(), getPalette()]);
 }
 
 // ============================================================================
@@ -320,16 +643,23 @@ export async function setColor(color: string): Promise<void> {
 
 export function initializeColorSystem(): void {
   currentColor = loadColorFromConfiguration();
+  lastPaletteSignature = getPaletteSignature();
   console.log(`🎨 Color system initialized with color: ${currentColor}`);
 
   // Register listener for configuration changes
   vscode.workspace.onDidChangeConfiguration(async (e) => {
-    if (e.affectsConfiguration('bracketLynx.color')) {
+    if (e.affectsConfiguration('bracketLynx.color') || e.affectsConfiguration('bracketLynx.themeColors')) {
       console.log('🎨 Configuration change detected for bracketLynx.color');
       await onConfigurationChanged();
     }
   });
 
+  // The theme decides which configured color applies
+  vscode.window.onDidChangeActiveColorTheme(async () => {
+    console.log(`🎨 Color theme changed to a ${getThemeKind()} theme`);
+    await onConfigurationChanged();
+  });
+
   // Wait for all decorators to be properly initialized
   setTimeout(async () => {
     try {
@@ -350,8 +680,8 @@ export function initializeColorSystem(): void {
     } catch (error) {
       console.error('🎨 Error applying initial color decorations:', error);
       try {
-        currentColor = DEFAULT_COLOR;
-        console.log(`🎨 Falling back to default color: ${DEFAULT_COLOR}`);
+        currentColor = DEFAULT_THEME_COLORS[getThemeKind()];
+        console.log(`🎨 Falling back to default color: ${currentColor}`);
       } catch (fallbackError) {
         console.error('🎨 Failed to fallback to default color:', fallbackError);
       }
@@ -391,8 +721,10 @@ export async function onConfigurationChanged(): Promise<void> {
   console.log(`🎨 Configuration changed - new color: ${newColor}, current color: ${currentColor}`);
 
   if (isValidHexColor(newColor)) {
-    const wasColorChanged = newColor !== currentColor;
+    const paletteSignature = getPaletteSignature();
+    const wasColorChanged = newColor !== currentColor || paletteSignature !== lastPaletteSignature;
     currentColor = newColor;
+    lastPaletteSignature = paletteSignature;
 
     console.log(`🎨 Color ${wasColorChanged ? 'changed' : 'unchanged'} - updating to: ${currentColor}`);
 
@@ -406,7 +738,7 @@ export async function onConfigurationChanged(): Promise<void> {
     }
   } else {
     console.warn(`🎨 Invalid color detected: ${newColor}`);
-    const fallbackColor = isValidHexColor(currentColor) ? currentColor : DEFAULT_COLOR;
+    const fallbackColor = isValidHexColor(currentColor) ? currentColor : DEFAULT_THEME_COLORS[getThemeKind()];
     currentColor = fallbackColor;
 
     try {
@@ -429,7 +761,9 @@ export async function onConfigurationChanged(): Promise<void> {
 export async function restoreColorFromGlobal(): Promise<void> {
   try {
     const globalConfig = vscode.workspace.getConfiguration('bracketLynx');
-    const globalColor = globalConfig.inspect<string>('color')?.globalValue;
+    const globalColor =
+      globalConfig.inspect<Partial<ThemeColors>>('themeColors')?.globalValue?.[getThemeKind()] ??
+      globalConfig.inspect<string>('color')?.globalValue;
 
     if (globalColor && isValidHexColor(globalColor)) {
       currentColor = globalColor;
@@ -449,16 +783,23 @@ export async function restoreColorFromGlobal(): Promise<void> {
   }
 }
 
+/**
+ * Drop the saved colors, so every kind of theme is back to its own default
+ */
 export async function resetColorToDefault(): Promise<void> {
   try {
-    currentColor = DEFAULT_COLOR;
-    await saveColorToConfiguration(DEFAULT_COLOR);
+    const config = vscode.workspace.getConfiguration('bracketLynx');
+    await Promise.all([
+      config.update('color', undefined, vscode.ConfigurationTarget.Global),
+      config.update('themeColors', undefined, vscode.ConfigurationTarget.Global),
+    ]);
+    currentColor = loadColorFromConfiguration();
 
     if (bracketLynxProvider) {
-      await recreateAllBracketLynxDecorations(DEFAULT_COLOR);
+      await recreateAllBracketLynxDecorations(currentColor);
     }
 
-    console.log(`🎨 Color reset to default: ${DEFAULT_COLOR}`);
+    console.log(`🎨 Color reset to default: ${currentColor}`);
   } catch (error) {
     console.error('🎨 Error resetting color to default:', error);
     throw error;
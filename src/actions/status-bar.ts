@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import { BracketLynxConfig, CacheManager, shouldProcessFileConfig } from '../lens/lens';
+import { UpdateMode } from '../lens/update-mode';
+import { OptimizedBracketParser, type PerformanceFilterResult, type PerformanceMode } from '../core/performance-parser';
+import { isEditorEnabled, isExtensionEnabled } from './toggle';
+
+// ============================================================================
+// 📊 STATUS BAR - State, decoration count and skip reasons of the active file
+// ============================================================================
+
+export interface StatusBarState {
+  text: string;
+  tooltip: string;
+}
+
+export class BracketLynxStatusBar {
+  private static item?: vscode.StatusBarItem;
+  // The performance filter reads the whole text, so it runs once per document version and adaptive mode
+  private static lastFilter?: {
+    uri: string;
+    version: number;
+    adaptiveMode: PerformanceMode;
+    result: PerformanceFilterResult;
+  };
+
+  static register(): vscode.Disposable {
+    this.item ??= vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    this.item.name = 'Bracket Lynx';
+    // Opens the same quick pick as the command palette entry
+    this.item.command = 'bracketLynx.menu';
+    this.refresh();
+
+    return {
+      dispose: () => {
+        this.item?.dispose();
+        this.item = undefined;
+        this.lastFilter = undefined;
+      },
+    };
+  }
+
+  /**
+   * Redraw the item for the active editor, after a render, a toggle or an editor switch
+   */
+  static refresh(): void {
+    if (!this.item) {
+      return;
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      this.item.hide();
+      return;
+    }
+
+    const { text, tooltip } = this.getState(editor);
+    this.item.text = text;
+    this.item.tooltip = tooltip;
+    this.item.show();
+  }
+
+  static getState(editor: vscode.TextEditor): StatusBarState {
+    const document = editor.document;
+    const globalEnabled = isExtensionEnabled();
+    const fileEnabled = isEditorEnabled(editor);
+    const filter = this.getPerformanceFilter(document);
+    const count = CacheManager.editorCache.get(editor)?.decorationCount ?? 0;
+
+    const lines = [
+      `Bracket Lynx: ${globalEnabled ? 'enabled' : 'disabled'} globally, ${fileEnabled ? 'enabled' : 'disabled'} for this file`,
+      `Decorations: ${count}`,
+      `Performance mode: ${filter.performanceMode}`,
+    ];
+    if (BracketLynxConfig.isForceDecorated(document)) {
+      lines.push('Performance filters: off for this file');
+    }
+    const skipReason = this.getSkipReason(editor, filter);
+    if (skipReason) {
+      lines.push(`Skipped: ${skipReason}`);
+    }
+    if (filter.shouldSkip) {
+      lines.push("Run 'Bracket Lynx: Decorate This File Anyway' to decorate it regardless");
+    }
+    lines.push('', 'Click to toggle, change color or restore defaults');
+    const tooltip = lines.join('\n');
+
+    if (!globalEnabled || !fileEnabled) {
+      return { text: '$(eye-closed) Lynx', tooltip };
+    }
+    if (skipReason) {
+      return { text: '$(warning) Lynx', tooltip };
+    }
+    const mode = filter.performanceMode === 'normal' ? '' : ` $(dashboard) ${filter.performanceMode}`;
+    return { text: `$(bracket) ${count}${mode}`, tooltip };
+  }
+
+  /**
+   * Why the active file shows no decorations even though it is enabled, if it is skipped
+   */
+  private static getSkipReason(editor: vscode.TextEditor, filter: PerformanceFilterResult): string | undefined {
+    const document = editor.document;
+    if (!shouldProcessFileConfig(document.languageId, document.fileName)) {
+      return `${document.languageId} files are not decorated`;
+    }
+    if (filter.shouldSkip) {
+      return filter.reason;
+    }
+    if (!UpdateMode.canDecorate(document)) {
+      return BracketLynxConfig.mode === 'manual'
+        ? "manual mode, run 'Bracket Lynx: Decorate Current File'"
+        : 'hidden while typing';
+    }
+    return undefined;
+  }
+
+  private static getPerformanceFilter(document: vscode.TextDocument): PerformanceFilterResult {
+    const parser = OptimizedBracketParser.getInstance();
+    const uri = document.uri.toString();
+    const adaptiveMode = parser.getAdaptiveMode(uri);
+    if (
+      this.lastFilter?.uri !== uri ||
+      this.lastFilter.version !== document.version ||
+      this.lastFilter.adaptiveMode !== adaptiveMode
+    ) {
+      // The filters only guard the optimized parser, so other documents are never skipped by them
+      const result: PerformanceFilterResult = parser.shouldUseOriginalParser(document)
+        ? { shouldSkip: false, performanceMode: 'normal' }
+        : parser.getPerformanceFilter(document);
+      this.lastFilter = { uri, version: document.version, adaptiveMode, result };
+    }
+    return this.lastFilter.result;
+  }
+}
@@ -7,6 +7,7 @@ const CONFIG_SECTION = 'bracketLynx';
 const GLOBAL_ENABLED_KEY = 'globalEnabled';
 const DISABLED_FILES_KEY = 'disabledFiles';
 const INDIVIDUALLY_ENABLED_FILES_KEY = 'individuallyEnabledFiles';
+const FORCE_DECORATED_FILES_KEY = 'forceDecoratedFiles';
 
 // TIMING CONSTANTS
 const DECORATION_UPDATE_DELAY_SHORT = 50;
@@ -160,8 +161,8 @@ export async function toggleCurrentEditor(): Promise<void> {
 
         // Force immediate update for main provider
         if (bracketLynxProvider) {
-          if (bracketLynxProvider.updateDecoration) {
-            bracketLynxProvider.updateDecoration(activeEditor);
+          if (bracketLynxProvider.requestUpdate) {
+            bracketLynxProvider.requestUpdate(activeEditor);
           } else if (bracketLynxProvider.delayUpdateDecoration) {
             bracketLynxProvider.delayUpdateDecoration(activeEditor);
           }
@@ -196,6 +197,35 @@ export async function toggleCurrentEditor(): Promise<void> {
   }
 }
 
+/**
+ * Decorate the current file even though the performance filters skip it, e.g. generated code
+ * with long lines. The override is persisted per file in `bracketLynx.forceDecoratedFiles`.
+ */
+export async function forceDecorateCurrentFile(): Promise<void> {
+  const activeEditor = vscode.window.activeTextEditor;
+  if (!activeEditor) {
+    vscode.window.showWarningMessage('📝 No active editor to decorate');
+    return;
+  }
+
+  const fileUri = getEditorKey(activeEditor);
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  const forcedFiles = config.get<string[]>(FORCE_DECORATED_FILES_KEY, []);
+  if (forcedFiles.includes(fileUri)) {
+    vscode.window.showInformationMessage('⚡ Bracket Lynx: Performance filters are already off for this file');
+    return;
+  }
+
+  try {
+    // The configuration change clears the caches and redraws every editor
+    await config.update(FORCE_DECORATED_FILES_KEY, [...forcedFiles, fileUri], vscode.ConfigurationTarget.Global);
+    vscode.window.showInformationMessage('⚡ Bracket Lynx: Decorating this file regardless of performance filters');
+  } catch (error) {
+    console.error('Failed to save force-decorated files state:', error);
+    vscode.window.showErrorMessage('⚡ Error decorating the current file');
+  }
+}
+
 export async function resetToDefault(): Promise<void> {
   try {
     // Show confirmation dialog with performance info
@@ -226,10 +256,12 @@ export async function resetToDefault(): Promise<void> {
       config.update(GLOBAL_ENABLED_KEY, true, vscode.ConfigurationTarget.Global),
       config.update(DISABLED_FILES_KEY, [], vscode.ConfigurationTarget.Global),
       config.update(INDIVIDUALLY_ENABLED_FILES_KEY, [], vscode.ConfigurationTarget.Global),
+      config.update(FORCE_DECORATED_FILES_KEY, [], vscode.ConfigurationTarget.Global),
 
       // Visual settings
       config.update('prefix', '‹~ ', vscode.ConfigurationTarget.Global),
-      config.update('color', '#515151', vscode.ConfigurationTarget.Global),
+      config.update('color', undefined, vscode.ConfigurationTarget.Global),
+      config.update('themeColors', undefined, vscode.ConfigurationTarget.Global),
       config.update('fontStyle', 'italic', vscode.ConfigurationTarget.Global),
       config.update('unmatchBracketsPrefix', '❌ ', vscode.ConfigurationTarget.Global),
 
@@ -243,6 +275,11 @@ export async function resetToDefault(): Promise<void> {
       config.update('enablePerformanceFilters', true, vscode.ConfigurationTarget.Global),
       config.update('maxFileSize', 10485760, vscode.ConfigurationTarget.Global),
       config.update('maxDecorationsPerFile', 500, vscode.ConfigurationTarget.Global),
+      config.update('minifiedLineLength', 500, vscode.ConfigurationTarget.Global),
+      config.update('updateTimeBudget', 100, vscode.ConfigurationTarget.Global),
+      config.update('parseInWorker', true, vscode.ConfigurationTarget.Global),
+      config.update('partialRenderBudget', 50, vscode.ConfigurationTarget.Global),
+      config.update('minifiedFileSuffixes', undefined, vscode.ConfigurationTarget.Global),
     ]);
 
     // Reset internal state
@@ -485,8 +522,8 @@ function reactivateExtension(): void {
 
         if (editorEnabled) {
           // Update main provider for this editor
-          if (bracketLynxProvider && bracketLynxProvider.updateDecoration) {
-            bracketLynxProvider.updateDecoration(editor);
+          if (bracketLynxProvider && bracketLynxProvider.requestUpdate) {
+            bracketLynxProvider.requestUpdate(editor);
           }
 
           // Update frameworks decorator for this editor
@@ -547,8 +584,8 @@ function updateEditorDecorations(editor: vscode.TextEditor): void {
 
   // Update main provider
   if (bracketLynxProvider) {
-    if (isEditorEnabledForThisFile && bracketLynxProvider.updateDecoration) {
-      bracketLynxProvider.updateDecoration(editor);
+    if (isEditorEnabledForThisFile && bracketLynxProvider.requestUpdate) {
+      bracketLynxProvider.requestUpdate(editor);
       console.log(`🔄 Main provider updated for ${editor.document.fileName}`);
     } else if (!isEditorEnabledForThisFile && bracketLynxProvider.clearEditorDecorations) {
       bracketLynxProvider.clearEditorDecorations(editor);
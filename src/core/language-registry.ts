@@ -0,0 +1,236 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { BracketTrait, LanguageConfiguration, StringTrait } from '../lens/lens';
+
+// ============================================================================
+// 🌐 LANGUAGE REGISTRY - Grammars derived from installed extensions
+// ============================================================================
+
+type CommentRule = string | { comment?: string };
+type AutoClosingPair = [string, string] | { open?: string; close?: string };
+
+/**
+ * The parts of a `language-configuration.json` that describe brackets and comments
+ */
+export interface ContributedLanguageConfiguration {
+  comments?: {
+    lineComment?: CommentRule;
+    blockComment?: [string, string];
+  };
+  brackets?: [string, string][];
+  autoClosingPairs?: AutoClosingPair[];
+}
+
+// Every language with brackets, except prose and free-form JSON, which read poorly with headers
+export const DEFAULT_DERIVED_LANGUAGES = ['*', '!markdown', '!plaintext', '!jsonc'] as const;
+
+const QUOTE_PATTERN = /^(["'`])\1*$/;
+const WORD_PATTERN = /^\w+$/;
+
+export class LanguageRegistry {
+  private static instance: LanguageRegistry;
+
+  // Language ID -> absolute path of its language-configuration.json
+  private configurationPaths?: Map<string, string>;
+  private derivedConfigurations = new Map<string, LanguageConfiguration | null>();
+
+  private constructor() {}
+
+  static getInstance(): LanguageRegistry {
+    if (!LanguageRegistry.instance) {
+      LanguageRegistry.instance = new LanguageRegistry();
+    }
+    return LanguageRegistry.instance;
+  }
+
+  /**
+   * Whether `bracketLynx.derivedLanguages` lets the language use its extension's grammar:
+   * `*` covers every language, and a `!` entry opts one out even then
+   */
+  isDerivationEnabled(languageId: string): boolean {
+    const entries = vscode.workspace
+      .getConfiguration('bracketLynx')
+      .get<string[]>('derivedLanguages', [...DEFAULT_DERIVED_LANGUAGES]) ?? [];
+    if (entries.includes(`!${languageId}`)) {
+      return false;
+    }
+    return entries.includes('*') || entries.includes(languageId);
+  }
+
+  /**
+   * Whether the language has a usable grammar from its extension
+   */
+  isDerivedLanguage(languageId: string): boolean {
+    return this.getDerivedConfiguration(languageId) !== undefined;
+  }
+
+  /**
+   * Grammar derived for the language, or undefined when it is opted out or defines no brackets
+   */
+  getDerivedConfiguration(languageId: string): LanguageConfiguration | undefined {
+    if (!this.isDerivationEnabled(languageId)) {
+      return undefined;
+    }
+
+    if (!this.derivedConfigurations.has(languageId)) {
+      this.derivedConfigurations.set(languageId, this.loadConfiguration(languageId) ?? null);
+    }
+    return this.derivedConfigurations.get(languageId) ?? undefined;
+  }
+
+  /**
+   * Forget everything read so far, e.g. after extensions are installed or removed
+   */
+  refresh(): void {
+    this.configurationPaths = undefined;
+    this.derivedConfigurations.clear();
+  }
+
+  // ============================================================================
+  // 🔧 CONTRIBUTION LOOKUP
+  // ============================================================================
+
+  private loadConfiguration(languageId: string): LanguageConfiguration | undefined {
+    const configurationPath = this.getConfigurationPaths().get(languageId);
+    if (!configurationPath) {
+      return undefined;
+    }
+
+    try {
+      const contributed = parseJsonc(fs.readFileSync(configurationPath, 'utf8'));
+      return translateLanguageConfiguration(contributed as ContributedLanguageConfiguration);
+    } catch (error) {
+      console.error(`Bracket Lynx: Could not read language configuration for ${languageId}:`, error);
+      return undefined;
+    }
+  }
+
+  private getConfigurationPaths(): Map<string, string> {
+    if (this.configurationPaths) {
+      return this.configurationPaths;
+    }
+
+    const configurationPaths = new Map<string, string>();
+    for (const extension of vscode.extensions?.all ?? []) {
+      const languages = extension.packageJSON?.contributes?.languages;
+      if (!Array.isArray(languages)) {
+        continue;
+      }
+
+      for (const language of languages) {
+        // Several extensions may contribute one language; the first configuration wins
+        if (typeof language?.id === 'string' && typeof language.configuration === 'string' &&
+            !configurationPaths.has(language.id)) {
+          configurationPaths.set(language.id, path.join(extension.extensionPath, language.configuration));
+        }
+      }
+    }
+
+    this.configurationPaths = configurationPaths;
+    return configurationPaths;
+  }
+}
+
+// ============================================================================
+// 🔧 TRANSLATION HELPERS
+// ============================================================================
+
+/**
+ * Map a `language-configuration.json` onto Bracket Lynx's grammar. Symbol pairs become
+ * symbol brackets, keyword pairs become word brackets and self-closing quote pairs
+ * from `autoClosingPairs` become strings.
+ */
+export function translateLanguageConfiguration(
+  contributed: ContributedLanguageConfiguration
+): LanguageConfiguration | undefined {
+  const pairs = (contributed.brackets ?? []).filter(isPair);
+  if (pairs.length === 0) {
+    return undefined;
+  }
+
+  const toTrait = ([opening, closing]: [string, string]): BracketTrait => ({ opening, closing });
+  const lineComment = contributed.comments?.lineComment;
+  const line = typeof lineComment === 'string' ? lineComment : lineComment?.comment;
+  const block = contributed.comments?.blockComment;
+
+  const quotes = new Set<string>();
+  for (const pair of contributed.autoClosingPairs ?? []) {
+    const [open, close] = Array.isArray(pair) ? pair : [pair.open, pair.close];
+    if (open && open === close && QUOTE_PATTERN.test(open)) {
+      quotes.add(open);
+    }
+  }
+  const toString = (quote: string): StringTrait => ({
+    opening: quote,
+    closing: quote,
+    escape: ['\\\\', `\\${quote[0]}`],
+  });
+  const isMultiline = (quote: string) => quote.startsWith('`') || quote.length > 1;
+
+  return {
+    ignoreCase: false,
+    comments: {
+      line: line ? [line] : [],
+      block: isPair(block) ? [{ opening: block[0], closing: block[1] }] : [],
+    },
+    brackets: {
+      symbol: pairs.filter(([opening]) => !WORD_PATTERN.test(opening)).map(toTrait),
+      word: pairs.filter(([opening]) => WORD_PATTERN.test(opening)).map(toTrait),
+    },
+    strings: {
+      inline: [...quotes].filter((quote) => !isMultiline(quote)).map(toString),
+      multiline: [...quotes].filter(isMultiline).map(toString),
+    },
+    terminators: [';', ','],
+  };
+}
+
+/**
+ * Parse JSON that may contain comments and trailing commas, as these files often do
+ */
+export function parseJsonc(text: string): unknown {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += text[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') {
+        i++;
+      }
+      result += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else if (char === '}' || char === ']') {
+      // Drop a trailing comma before the closing bracket
+      result = result.trimEnd();
+      if (result.endsWith(',')) {
+        result = result.slice(0, -1);
+      }
+      result += char;
+    } else {
+      result += char;
+    }
+  }
+
+  return JSON.parse(result);
+}
+
+function isPair(value: unknown): value is [string, string] {
+  return Array.isArray(value) && value.length === 2 &&
+    typeof value[0] === 'string' && typeof value[1] === 'string' &&
+    value[0].length > 0 && value[1].length > 0;
+}
@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { BracketEntry, BracketDecorationSource, BracketLynxConfig } from '../lens/lens';
+import { OptimizedBracketParser } from './performance-parser';
+import { isConfiguredLanguage } from './performance-config';
+import { SerializedBracketEntry, SerializedDecorationSource, WorkerRequest, WorkerResponse } from './parse-worker-protocol';
+
+// ============================================================================
+// 🧵 PARSE WORKER CLIENT - Extension host side of the parse worker
+// ============================================================================
+
+export interface ParsedDocument {
+  readonly version: number;
+  readonly brackets: BracketEntry[];
+  // Before the performance filters dropped short scopes
+  readonly unfilteredBrackets: BracketEntry[];
+  readonly decorationSource: BracketDecorationSource[];
+  // Milliseconds the worker spent parsing and building headers
+  readonly parseTime: number;
+  // Set when the headers already come from document symbols, which the worker cannot reach
+  readonly hasSymbolHeaders?: boolean;
+}
+
+export class ParseWorkerClient {
+  private static instance: ParseWorkerClient;
+
+  private worker?: Worker;
+  private isUnavailable = false;
+  private nextRequestId = 1;
+  private pendingRequests = new Map<number, (result: ParsedDocument | undefined) => void>();
+
+  private constructor() {}
+
+  static getInstance(): ParseWorkerClient {
+    if (!ParseWorkerClient.instance) {
+      ParseWorkerClient.instance = new ParseWorkerClient();
+    }
+    return ParseWorkerClient.instance;
+  }
+
+  /**
+   * Whether parsing can be handed to the worker. False when the bundled worker
+   * is missing (e.g. running from sources) or it failed to start.
+   */
+  isAvailable(): boolean {
+    return this.ensureWorker() !== undefined;
+  }
+
+  /**
+   * Forward an edit to every parser instance so incremental snapshots stay valid.
+   */
+  recordChanges(
+    document: vscode.TextDocument,
+    changes: readonly vscode.TextDocumentContentChangeEvent[]
+  ): void {
+    OptimizedBracketParser.getInstance().recordChanges(document, changes);
+
+    this.post({
+      type: 'changes',
+      uri: document.uri.toString(),
+      version: document.version,
+      changes: changes.map((change) => ({
+        rangeOffset: change.rangeOffset,
+        rangeLength: change.rangeLength,
+        text: change.text,
+      })),
+    });
+  }
+
+  /**
+   * Parse a document in the worker. Resolves undefined when the worker goes
+   * away or the token is cancelled first; callers compare `version` to drop
+   * stale results.
+   */
+  parse(document: vscode.TextDocument, token?: vscode.CancellationToken): Promise<ParsedDocument | undefined> {
+    const worker = this.ensureWorker();
+    if (!worker || token?.isCancellationRequested) {
+      return Promise.resolve(undefined);
+    }
+
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve) => {
+      const cancellation = token?.onCancellationRequested(() => {
+        if (this.pendingRequests.delete(requestId)) {
+          this.post({ type: 'cancel', requestId });
+          resolve(undefined);
+        }
+      });
+
+      this.pendingRequests.set(requestId, (result) => {
+        cancellation?.dispose();
+        resolve(result);
+      });
+      this.post({
+        type: 'parse',
+        requestId,
+        document: {
+          uri: document.uri.toString(),
+          fileName: document.fileName,
+          languageId: document.languageId,
+          version: document.version,
+          text: document.getText(),
+        },
+        configuration: this.snapshotConfiguration(document.languageId),
+        performanceMode: OptimizedBracketParser.getInstance().getAdaptiveMode(document.uri.toString()),
+      });
+    });
+  }
+
+  /**
+   * Settings as plain data. The worker cannot see other extensions, so a grammar
+   * derived from one travels with the settings as if the user had written it.
+   */
+  private snapshotConfiguration(languageId: string): Record<string, unknown> {
+    const configuration = JSON.parse(JSON.stringify(vscode.workspace.getConfiguration('bracketLynx')));
+    if (isConfiguredLanguage(languageId) && !BracketLynxConfig.languages[languageId]) {
+      configuration.languages = {
+        ...configuration.languages,
+        [languageId]: BracketLynxConfig.getLanguageSpecificConfig(languageId),
+      };
+    }
+    return configuration;
+  }
+
+  clearCache(): void {
+    this.post({ type: 'clear' });
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = undefined;
+    this.resolvePending();
+  }
+
+  // ============================================================================
+  // 🔧 WORKER LIFECYCLE
+  // ============================================================================
+
+  private ensureWorker(): Worker | undefined {
+    if (this.worker || this.isUnavailable) {
+      return this.worker;
+    }
+
+    const workerPath = path.join(__dirname, 'parse-worker.js');
+    if (!fs.existsSync(workerPath)) {
+      this.isUnavailable = true;
+      return undefined;
+    }
+
+    try {
+      this.worker = new Worker(workerPath);
+      this.worker.on('message', (response: WorkerResponse) => this.handleResponse(response));
+      this.worker.on('error', (error) => {
+        console.error('🚨 Bracket Lynx: Parse worker failed, parsing in-process:', error);
+        this.markUnavailable();
+      });
+      this.worker.on('exit', () => this.markUnavailable());
+
+      if (BracketLynxConfig.debug) {
+        console.log('🧵 Bracket Lynx: Parse worker started');
+      }
+    } catch (error) {
+      console.error('🚨 Bracket Lynx: Could not start parse worker:', error);
+      this.isUnavailable = true;
+      this.worker = undefined;
+    }
+
+    return this.worker;
+  }
+
+  private markUnavailable(): void {
+    if (this.worker) {
+      this.isUnavailable = true;
+      this.worker = undefined;
+    }
+    this.resolvePending();
+  }
+
+  private resolvePending(): void {
+    const pending = [...this.pendingRequests.values()];
+    this.pendingRequests.clear();
+    pending.forEach((resolve) => resolve(undefined));
+  }
+
+  private post(request: WorkerRequest): void {
+    this.worker?.postMessage(request);
+  }
+
+  private handleResponse(response: WorkerResponse): void {
+    const resolve = this.pendingRequests.get(response.requestId);
+    if (!resolve) {
+      return;
+    }
+    this.pendingRequests.delete(response.requestId);
+
+    if (response.type === 'error') {
+      console.error('🚨 Bracket Lynx: Parse worker error:', response.message);
+      resolve(undefined);
+      return;
+    }
+
+    resolve({
+      version: response.version,
+      brackets: deserializeBrackets(response.brackets),
+      unfilteredBrackets: deserializeBrackets(response.unfilteredBrackets),
+      decorationSource: deserializeDecorationSource(response.decorationSource),
+      parseTime: response.parseTime,
+    });
+  }
+}
+
+// ============================================================================
+// 🔧 DESERIALIZATION HELPERS
+// ============================================================================
+
+function deserializeBrackets(brackets: SerializedBracketEntry[]): BracketEntry[] {
+  return brackets.map((entry) => ({
+    start: { position: new vscode.Position(entry.start.line, entry.start.character), token: entry.start.token },
+    end: { position: new vscode.Position(entry.end.line, entry.end.character), token: entry.end.token },
+    headerMode: entry.headerMode,
+    isUnmatchBrackets: entry.isUnmatchBrackets,
+    items: deserializeBrackets(entry.items),
+    kind: entry.kind,
+  }));
+}
+
+function deserializeDecorationSource(sources: SerializedDecorationSource[]): BracketDecorationSource[] {
+  return sources.map((source) => ({
+    range: new vscode.Range(...source.range),
+    bracketHeader: source.bracketHeader,
+    kind: source.kind,
+    depth: source.depth,
+    isUnmatchBrackets: source.isUnmatchBrackets,
+    openingLine: source.openingLine,
+  }));
+}
@@ -0,0 +1,99 @@
+import type { BracketEntry, BracketDecorationSource, HeaderMode, ScopeKind } from '../lens/lens';
+import type { PerformanceMode } from './performance-parser';
+
+// ============================================================================
+// 🧵 PARSE WORKER PROTOCOL - Plain data shared by both sides of the worker
+// ============================================================================
+
+export interface SerializedPosition {
+  readonly line: number;
+  readonly character: number;
+}
+
+export interface SerializedTokenEntry extends SerializedPosition {
+  readonly token: string;
+}
+
+export interface SerializedBracketEntry {
+  readonly start: SerializedTokenEntry;
+  readonly end: SerializedTokenEntry;
+  readonly headerMode: HeaderMode;
+  readonly isUnmatchBrackets: boolean;
+  readonly items: SerializedBracketEntry[];
+  readonly kind?: ScopeKind;
+}
+
+export interface SerializedDecorationSource {
+  readonly range: readonly [number, number, number, number];
+  readonly bracketHeader: string;
+  readonly kind?: ScopeKind;
+  readonly depth: number;
+  readonly isUnmatchBrackets: boolean;
+  readonly openingLine: number;
+}
+
+export interface SerializedContentChange {
+  readonly rangeOffset: number;
+  readonly rangeLength: number;
+  readonly text: string;
+}
+
+export interface WorkerDocumentSource {
+  readonly uri: string;
+  readonly fileName: string;
+  readonly languageId: string;
+  readonly version: number;
+  readonly text: string;
+}
+
+export type WorkerRequest =
+  | { readonly type: 'changes'; readonly uri: string; readonly version: number; readonly changes: SerializedContentChange[] }
+  | { readonly type: 'clear' }
+  | { readonly type: 'cancel'; readonly requestId: number }
+  | {
+      readonly type: 'parse';
+      readonly requestId: number;
+      readonly document: WorkerDocumentSource;
+      readonly configuration: Record<string, unknown>;
+      // The adaptive mode the extension host measured for this document
+      readonly performanceMode: PerformanceMode;
+    };
+
+export type WorkerResponse =
+  | {
+      readonly type: 'result';
+      readonly requestId: number;
+      readonly version: number;
+      readonly brackets: SerializedBracketEntry[];
+      readonly unfilteredBrackets: SerializedBracketEntry[];
+      readonly decorationSource: SerializedDecorationSource[];
+      readonly parseTime: number;
+    }
+  | { readonly type: 'error'; readonly requestId: number; readonly message: string };
+
+// ============================================================================
+// 🔧 SERIALIZATION HELPERS
+// ============================================================================
+
+export function serializeBrackets(brackets: BracketEntry[]): SerializedBracketEntry[] {
+  return brackets.map((entry) => ({
+    start: { line: entry.start.position.line, character: entry.start.position.character, token: entry.start.token },
+    end: { line: entry.end.position.line, character: entry.end.position.character, token: entry.end.token },
+    headerMode: entry.headerMode,
+    isUnmatchBrackets: entry.isUnmatchBrackets,
+    items: serializeBrackets(entry.items),
+    // Left out rather than undefined, so entries compare equal after a JSON round trip
+    ...(entry.kind && { kind: entry.kind }),
+  }));
+}
+
+export function serializeDecorationSource(sources: BracketDecorationSource[]): SerializedDecorationSource[] {
+  return sources.map((source) => ({
+    range: [source.range.start.line, source.range.start.character, source.range.end.line, source.range.end.character],
+    bracketHeader: source.bracketHeader,
+    ...(source.kind && { kind: source.kind }),
+    depth: source.depth,
+    isUnmatchBrackets: source.isUnmatchBrackets,
+    openingLine: source.openingLine,
+  }));
+}
@@ -0,0 +1,194 @@
+import type * as vscode from 'vscode';
+import type { WorkerDocumentSource } from './parse-worker-protocol';
+
+// ============================================================================
+// 🧵 VSCODE SHIM - The subset of the API the parsers touch inside the worker
+// ============================================================================
+
+class ShimPosition {
+  constructor(
+    readonly line: number,
+    readonly character: number
+  ) {}
+
+  compareTo(other: ShimPosition): number {
+    return this.line - other.line || this.character - other.character;
+  }
+
+  isBefore(other: ShimPosition): boolean {
+    return this.compareTo(other) < 0;
+  }
+
+  isBeforeOrEqual(other: ShimPosition): boolean {
+    return this.compareTo(other) <= 0;
+  }
+
+  isAfter(other: ShimPosition): boolean {
+    return this.compareTo(other) > 0;
+  }
+
+  isAfterOrEqual(other: ShimPosition): boolean {
+    return this.compareTo(other) >= 0;
+  }
+
+  isEqual(other: ShimPosition): boolean {
+    return this.compareTo(other) === 0;
+  }
+
+  translate(lineDelta: number = 0, characterDelta: number = 0): ShimPosition {
+    return new ShimPosition(this.line + lineDelta, this.character + characterDelta);
+  }
+
+  with(line: number = this.line, character: number = this.character): ShimPosition {
+    return new ShimPosition(line, character);
+  }
+}
+
+class ShimRange {
+  readonly start: ShimPosition;
+  readonly end: ShimPosition;
+
+  constructor(
+    startOrLine: ShimPosition | number,
+    endOrCharacter: ShimPosition | number,
+    endLine?: number,
+    endCharacter?: number
+  ) {
+    const start = typeof startOrLine === 'number'
+      ? new ShimPosition(startOrLine, endOrCharacter as number)
+      : startOrLine;
+    const end = typeof startOrLine === 'number'
+      ? new ShimPosition(endLine ?? 0, endCharacter ?? 0)
+      : (endOrCharacter as ShimPosition);
+
+    // Ranges are always normalized so start is before end
+    [this.start, this.end] = start.isAfter(end) ? [end, start] : [start, end];
+  }
+
+  get isEmpty(): boolean {
+    return this.start.isEqual(this.end);
+  }
+
+  get isSingleLine(): boolean {
+    return this.start.line === this.end.line;
+  }
+}
+
+let configurationSnapshot: Record<string, unknown> = {};
+
+const readConfiguration = (key: string): unknown =>
+  key.split('.').reduce<unknown>(
+    (value, part) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined),
+    configurationSnapshot
+  );
+
+const vscodeShim = {
+  Position: ShimPosition,
+  Range: ShimRange,
+  EndOfLine: { LF: 1, CRLF: 2 },
+  workspace: {
+    getConfiguration: () => ({
+      get: <T>(key: string, defaultValue?: T): T | undefined => (readConfiguration(key) as T | undefined) ?? defaultValue,
+      has: (key: string) => readConfiguration(key) !== undefined,
+      update: () => Promise.resolve(),
+    }),
+  },
+  window: {
+    visibleTextEditors: [],
+    activeTextEditor: undefined,
+  },
+  extensions: {
+    all: [],
+  },
+};
+
+// 🎯 Resolve `require('vscode')` to the shim before any parser module loads
+const nodeModule = require('module');
+const originalRequire = nodeModule.prototype.require;
+
+nodeModule.prototype.require = function (id: string) {
+  if (id === 'vscode') {
+    return vscodeShim;
+  }
+  return originalRequire.apply(this, arguments);
+};
+
+// ============================================================================
+// 🔧 WORKER HELPERS
+// ============================================================================
+
+/**
+ * Replace the `bracketLynx` settings the parsers read with a snapshot from the extension host.
+ */
+export function setWorkerConfiguration(configuration: Record<string, unknown>): void {
+  configurationSnapshot = configuration;
+}
+
+/**
+ * Build a read-only TextDocument over text sent from the extension host.
+ */
+export function createWorkerDocument(source: WorkerDocumentSource): vscode.TextDocument {
+  const text = source.text;
+  const lineStarts = [0];
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    lineStarts.push(i + 1);
+  }
+
+  const positionAt = (offset: number): ShimPosition => {
+    const clamped = Math.max(0, Math.min(offset, text.length));
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (lineStarts[middle] <= clamped) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return new ShimPosition(low, clamped - lineStarts[low]);
+  };
+
+  const lineText = (line: number): string => {
+    const start = lineStarts[line] ?? text.length;
+    const end = line + 1 < lineStarts.length ? lineStarts[line + 1] - 1 : text.length;
+    return text.slice(start, Math.max(start, end)).replace(/\r$/, '');
+  };
+
+  const offsetAt = (position: ShimPosition): number => {
+    if (position.line >= lineStarts.length) {
+      return text.length;
+    }
+    const line = Math.max(0, position.line);
+    return lineStarts[line] + Math.max(0, Math.min(position.character, lineText(line).length));
+  };
+
+  const document = {
+    uri: { fsPath: source.fileName, toString: () => source.uri },
+    fileName: source.fileName,
+    languageId: source.languageId,
+    version: source.version,
+    lineCount: lineStarts.length,
+    isDirty: false,
+    isClosed: false,
+    isUntitled: false,
+    eol: text.includes('\r\n') ? vscodeShim.EndOfLine.CRLF : vscodeShim.EndOfLine.LF,
+    getText: (range?: ShimRange) =>
+      range ? text.slice(offsetAt(range.start), offsetAt(range.end)) : text,
+    positionAt,
+    offsetAt,
+    lineAt: (lineOrPosition: number | ShimPosition) => {
+      const line = typeof lineOrPosition === 'number' ? lineOrPosition : lineOrPosition.line;
+      const content = lineText(line);
+      return {
+        lineNumber: line,
+        text: content,
+        range: new ShimRange(line, 0, line, content.length),
+        isEmptyOrWhitespace: content.trim().length === 0,
+        firstNonWhitespaceCharacterIndex: content.length - content.trimStart().length,
+      };
+    },
+  };
+
+  return document as unknown as vscode.TextDocument;
+}
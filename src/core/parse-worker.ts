@@ -0,0 +1,97 @@
+// The shim must load first so every later `require('vscode')` resolves to it
+import { createWorkerDocument, setWorkerConfiguration } from './parse-worker-shim';
+import type * as vscode from 'vscode';
+import { parentPort } from 'worker_threads';
+import { DocumentDecorationCacheEntry } from '../lens/lens';
+import { OptimizedBracketParser } from './performance-parser';
+import { WorkerRequest, WorkerResponse, serializeBrackets, serializeDecorationSource } from './parse-worker-protocol';
+
+// ============================================================================
+// 🧵 PARSE WORKER - Tokenizes and builds headers off the extension host thread
+// ============================================================================
+
+const post = (response: WorkerResponse) => parentPort?.postMessage(response);
+
+// Requests wait here for one turn, so a cancel sent right behind a parse can still
+// drop it. Edits share the queue to stay ordered with the parses around them.
+const queuedRequests: Exclude<WorkerRequest, { type: 'cancel' }>[] = [];
+let isDrainScheduled = false;
+
+const handleRequest = (request: Exclude<WorkerRequest, { type: 'cancel' }>) => {
+  const optimizedParser = OptimizedBracketParser.getInstance();
+
+  switch (request.type) {
+    case 'changes': {
+      // Keep incremental snapshots in step with every document version
+      const document = { uri: { toString: () => request.uri }, version: request.version };
+      optimizedParser.recordChanges(
+        document as vscode.TextDocument,
+        request.changes as vscode.TextDocumentContentChangeEvent[]
+      );
+      break;
+    }
+
+    case 'clear':
+      optimizedParser.clearAllCache();
+      break;
+
+    case 'parse':
+      try {
+        setWorkerConfiguration(request.configuration);
+        optimizedParser.setAdaptiveMode(request.document.uri, request.performanceMode);
+        const document = createWorkerDocument(request.document);
+        const { brackets, unfilteredBrackets, decorationSource, parseTime } = DocumentDecorationCacheEntry.parse(document);
+
+        post({
+          type: 'result',
+          requestId: request.requestId,
+          version: request.document.version,
+          brackets: serializeBrackets(brackets),
+          unfilteredBrackets: serializeBrackets(unfilteredBrackets),
+          decorationSource: serializeDecorationSource(decorationSource),
+          parseTime,
+        });
+      } catch (error) {
+        post({
+          type: 'error',
+          requestId: request.requestId,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      break;
+  }
+};
+
+const drainRequests = () => {
+  // Cheap bookkeeping runs in bulk; a parse ends the turn so cancels can land
+  while (queuedRequests.length > 0) {
+    const request = queuedRequests.shift()!;
+    handleRequest(request);
+    if (request.type === 'parse') {
+      break;
+    }
+  }
+
+  isDrainScheduled = queuedRequests.length > 0;
+  if (isDrainScheduled) {
+    setImmediate(drainRequests);
+  }
+};
+
+parentPort?.on('message', (request: WorkerRequest) => {
+  if (request.type === 'cancel') {
+    const index = queuedRequests.findIndex(
+      (queued) => queued.type === 'parse' && queued.requestId === request.requestId
+    );
+    if (index >= 0) {
+      queuedRequests.splice(index, 1);
+    }
+    return;
+  }
+
+  queuedRequests.push(request);
+  if (!isDrainScheduled) {
+    isDrainScheduled = true;
+    setImmediate(drainRequests);
+  }
+});
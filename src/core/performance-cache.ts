@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { DocumentDecorationCacheEntry,EditorDecorationCacheEntry,BracketEntry,BracketDecorationSource,} from '../lens/lens';
+import type { SymbolHeaderResolver } from '../lens/symbol-headers';
 import { CACHE_CONFIG, createHash,safeExecute, safeExecuteAsync, BracketLynxError,logger, LogCategory,validateDocument} from './performance-config';
 
 // ============================================================================
@@ -147,7 +148,9 @@ export class AdvancedCacheManager {
   setDocumentCache(
     document: vscode.TextDocument,
     brackets: BracketEntry[],
-    decorationSource: BracketDecorationSource[]
+    unfilteredBrackets: BracketEntry[],
+    decorationSource: BracketDecorationSource[],
+    symbolHeaders?: SymbolHeaderResolver
   ): AdvancedDocumentCacheEntry {
     const uri = document.uri.toString();
     const text = document.getText();
@@ -165,7 +168,10 @@ export class AdvancedCacheManager {
 
     const entry: AdvancedDocumentCacheEntry = {
       brackets,
+      unfilteredBrackets,
       decorationSource,
+      symbolHeaders,
+      version: document.version,
       textHash,
       timestamp: now,
       accessCount: 1,
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { LanguageRegistry } from './language-registry';
 
 // PERFORMANCE CONFIGURATION
 export const PERFORMANCE_LIMITS = {
@@ -29,11 +30,18 @@ export const SUPPORTED_LANGUAGES = [
   'javascript',
   'javascriptreact',
   'json',
+  'latex',
+  'lua',
+  'python',
+  'ruby',
   'scss',
+  'shellscript',
+  'sql',
   'svelte',
   'typescript',
   'typescriptreact',
   'vue',
+  'yaml',
 ] as const;
 
 export const ALLOWED_JSON_FILES = ['package.json'] as const;
@@ -60,6 +68,44 @@ export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];
 export type ProblematicLanguage = (typeof PROBLEMATIC_LANGUAGES)[number];
 export type AllowedJsonFile = (typeof ALLOWED_JSON_FILES)[number];
 
+/**
+ * Whether a `bracketLynx.languages` grammar has a bracket pair to scan for. Grammars
+ * without one can never open a scope, and would tokenize with an empty pattern.
+ */
+export function hasBracketTokens(grammar: unknown): boolean {
+  const brackets = (grammar as { brackets?: Record<string, unknown> } | undefined)?.brackets;
+  const isTerm = (term: unknown) => typeof term === 'string' && term !== '';
+  return [brackets?.symbol, brackets?.word].some(
+    (pairs) => Array.isArray(pairs) && pairs.some((pair) => isTerm(pair?.opening) && isTerm(pair?.closing))
+  );
+}
+
+/**
+ * Language IDs given a grammar through the `bracketLynx.languages` setting
+ */
+export function getConfiguredLanguages(): string[] {
+  const languages = vscode.workspace
+    .getConfiguration('bracketLynx')
+    .get<Record<string, unknown>>('languages', {});
+  return Object.entries(languages ?? {})
+    .filter(([, grammar]) => hasBracketTokens(grammar))
+    .map(([languageId]) => languageId);
+}
+
+/**
+ * Languages decorated with a grammar outside the built-in set: a user grammar, or
+ * one derived from an installed extension for an opted-in language
+ */
+export function isConfiguredLanguage(languageId: string): boolean {
+  if (getConfiguredLanguages().includes(languageId)) {
+    return true;
+  }
+  return (
+    !(SUPPORTED_LANGUAGES as readonly string[]).includes(languageId) &&
+    LanguageRegistry.getInstance().isDerivedLanguage(languageId)
+  );
+}
+
 
 // ============================================================================
 // STRING UTILITIES
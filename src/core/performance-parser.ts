@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
-import { containsControlFlowKeyword } from '../lens/lens-rules';
-import { BracketEntry,TokenEntry,LanguageConfiguration,BracketLynxConfig,HeaderMode,} from '../lens/lens';
-import { PROBLEMATIC_LANGUAGES, PROBLEMATIC_EXTENSIONS,PERFORMANCE_LIMITS,createHash} from './performance-config';
+import { containsControlFlowKeyword, isRegexStart } from '../lens/lens-rules';
+import { BracketEntry,TokenEntry,LanguageConfiguration,BracketLynxConfig,HeaderMode,ParseProgress,} from '../lens/lens';
+import { PROBLEMATIC_LANGUAGES, PROBLEMATIC_EXTENSIONS,PERFORMANCE_LIMITS,createHash,isConfiguredLanguage} from './performance-config';
+import { TimeSlicer, type SlicedWork } from './time-slicer';
 
 // ============================================================================
 // 🚀 OPTIMIZED INTERFACES - Unified and Clean
@@ -23,8 +24,16 @@ export interface ParseState {
   readonly inBlockComment: boolean;
   readonly inLineComment: boolean;
   readonly stringEscapeNext: boolean;
+  readonly inRegex: boolean;
+  readonly inRegexClass: boolean;
+  // Open `${` substitutions, innermost last, each with its count of unclosed `{`
+  readonly templateBraces: readonly number[];
+  // Whether regex literals and template strings exist, which is only so in JS/TS
+  readonly scriptSyntax: boolean;
 }
 
+type MutableParseState = { -readonly [K in keyof ParseState]: ParseState[K] };
+
 export interface CacheEntry<T> {
   readonly data: T;
   readonly textHash: string;
@@ -42,15 +51,41 @@ export interface ChangeRegion {
 
 export interface ParseResult {
   readonly brackets: BracketEntry[];
+  // Before the post-parsing filters dropped short scopes, for the Problems panel
+  readonly unfilteredBrackets: BracketEntry[];
   readonly affectedRegions: ChangeRegion[];
   readonly parseTime: number;
   readonly cacheHit: boolean;
 }
 
+export interface PendingDamage {
+  readonly oldStart: number;
+  readonly oldEnd: number;
+  readonly newEnd: number;
+}
+
+export interface IncrementalSnapshot {
+  readonly version: number;
+  readonly textLength: number;
+  readonly lineStarts: number[];
+  readonly parseStates: ParseState[];
+  readonly brackets: BracketEntry[];
+  readonly damage?: PendingDamage;
+}
+
+export type PerformanceMode = 'normal' | 'performance' | 'minimal';
+
 export interface PerformanceFilterResult {
   readonly shouldSkip: boolean;
   readonly reason?: string;
-  readonly performanceMode: 'normal' | 'performance' | 'minimal';
+  readonly performanceMode: PerformanceMode;
+}
+
+export interface AdaptiveTiming {
+  readonly mode: PerformanceMode;
+  // Moving average of the updates measured since the last step
+  readonly averageTime?: number;
+  readonly lastTime: number;
 }
 
 // ============================================================================
@@ -138,6 +173,12 @@ export class OptimizedBracketParser {
   // 🎯 Unified cache system
   private parseStateCache = new UnifiedCacheManager<ParseState[]>(30, 2 * 60 * 1000);
   private tokenCache = new UnifiedCacheManager<{ index: number; token: string }[]>(30, 5 * 60 * 1000);
+
+  // 🔄 Raw bracket trees and pending edits per document, used by parseIncremental
+  private incrementalSnapshots = new Map<string, IncrementalSnapshot>();
+
+  // ⏱️ Measured update times per document, and the filters they stepped it down to
+  private adaptiveTimings = new Map<string, AdaptiveTiming>();
   
   // Configuration
   private parserExceptionConfig: ParserExceptionConfig = {
@@ -161,8 +202,42 @@ export class OptimizedBracketParser {
     MIN_BRACKET_CONTENT_LENGTH: 10,
     SKIP_LARGE_BRACKETS: 1000,
     MAX_NESTED_DEPTH: 20,
+    MAX_INCREMENTAL_SNAPSHOTS: 30,
+    MAX_ADAPTIVE_TIMINGS: 100,
+    SLICE_CHARACTERS: 4096,
+    SLICE_TOKENS: 256,
   } as const;
 
+  // ⏱️ From lightest to strictest filters
+  private static readonly PERFORMANCE_MODES: readonly PerformanceMode[] = ['normal', 'performance', 'minimal'];
+
+  // 🎯 Languages whose `/` may start a regex and whose backticks open template strings
+  private static readonly SCRIPT_SYNTAX_LANGUAGES = new Set([
+    'javascript', 'typescript', 'javascriptreact', 'typescriptreact',
+  ]);
+
+  // 🎯 State before the first character of a document
+  private static readonly INITIAL_STATE: Omit<ParseState, 'scriptSyntax'> = {
+    position: -1,
+    inString: false,
+    inSingleQuote: false,
+    inDoubleQuote: false,
+    inTemplateString: false,
+    inBlockComment: false,
+    inLineComment: false,
+    stringEscapeNext: false,
+    inRegex: false,
+    inRegexClass: false,
+    templateBraces: [],
+  };
+
+  private static initialState(languageId: string): ParseState {
+    return {
+      ...OptimizedBracketParser.INITIAL_STATE,
+      scriptSyntax: OptimizedBracketParser.SCRIPT_SYNTAX_LANGUAGES.has(languageId),
+    };
+  }
+
   private constructor() {}
 
   static getInstance(): OptimizedBracketParser {
@@ -184,7 +259,30 @@ export class OptimizedBracketParser {
     }
   }
 
+  /**
+   * Whether the document is skipped, and which performance mode filters its scopes
+   */
+  getPerformanceFilter(document: vscode.TextDocument): PerformanceFilterResult {
+    return this.applyPerformanceFilters(document, document.getText());
+  }
+
   parseBrackets(document: vscode.TextDocument): BracketEntry[] {
+    return TimeSlicer.runSync(this.parseBracketsInSlices(document));
+  }
+
+  /**
+   * parseBrackets as a pass that yields between batches, reporting the scopes closed so far
+   */
+  *parseBracketsInSlices(document: vscode.TextDocument): SlicedWork<BracketEntry[], ParseProgress> {
+    return (yield* this.parseTreesInSlices(document)).brackets;
+  }
+
+  /**
+   * The full parse, with the tree both before and after the post-parsing filters
+   */
+  private *parseTreesInSlices(
+    document: vscode.TextDocument
+  ): SlicedWork<Pick<ParseResult, 'brackets' | 'unfilteredBrackets'>, ParseProgress> {
     const text = document.getText();
     const fileUri = document.uri.toString();
     const textHash = createHash(text);
@@ -195,26 +293,36 @@ export class OptimizedBracketParser {
       if (BracketLynxConfig.debug) {
         console.log(`⚡ Skipping file: ${filterResult.reason}`);
       }
-      return [];
+      return { brackets: [], unfilteredBrackets: [] };
     }
 
     // 🎯 Check if we should use fallback parser
     if (this.shouldUseOriginalParser(document)) {
-      return this.fallbackParsing(document);
+      const brackets = this.fallbackParsing(document);
+      return { brackets, unfilteredBrackets: brackets };
     }
 
     const startTime = Date.now();
 
     try {
       // 🚀 Get cached data or create new
-      const parseStates = this.getOrCreateParseStates(text, fileUri, textHash);
-      const tokens = this.getOrCreateTokens(document, text, textHash);
+      const parseStates = yield* this.getOrCreateParseStates(text, fileUri, textHash, document.languageId);
+      const tokens = yield* this.getOrCreateTokens(document, text, textHash);
 
       // 🎯 Parse with optimized state detection
-      let brackets = this.parseTokensOptimized(document, tokens, parseStates);
+      const unfilteredBrackets = yield* this.parseTokensOptimized(document, tokens, parseStates);
+
+      // 🔄 Keep the unfiltered tree so later edits can be spliced into it
+      this.storeSnapshot(fileUri, {
+        version: document.version,
+        textLength: text.length,
+        lineStarts: this.computeLineStarts(text),
+        parseStates,
+        brackets: unfilteredBrackets,
+      });
 
       // 🔧 Apply post-parsing filters
-      brackets = this.applyPostParsingFilters(brackets, document, filterResult.performanceMode);
+      const brackets = this.applyPostParsingFilters(unfilteredBrackets, document, filterResult.performanceMode);
 
       const parseTime = Date.now() - startTime;
 
@@ -222,71 +330,151 @@ export class OptimizedBracketParser {
         console.log(`⚡ Parsing completed: ${parseTime}ms, ${brackets.length} brackets`);
       }
 
-      return brackets;
+      return { brackets, unfilteredBrackets };
     } catch (error) {
       console.error('🚨 Parsing error, using fallback:', error);
-      return this.fallbackParsing(document);
+      const brackets = this.fallbackParsing(document);
+      return { brackets, unfilteredBrackets: brackets };
     }
   }
 
   parseIncremental(
     document: vscode.TextDocument,
-    changes: readonly vscode.TextDocumentContentChangeEvent[],
-    existingBrackets: BracketEntry[]
+    changes: readonly vscode.TextDocumentContentChangeEvent[]
   ): ParseResult {
+    return TimeSlicer.runSync(this.parseIncrementalInSlices(document, changes));
+  }
+
+  /**
+   * parseIncremental as a pass that yields between batches; only a full parse reports progress
+   */
+  *parseIncrementalInSlices(
+    document: vscode.TextDocument,
+    changes: readonly vscode.TextDocumentContentChangeEvent[]
+  ): SlicedWork<ParseResult, ParseProgress> {
     const startTime = Date.now();
     const text = document.getText();
     const fileUri = document.uri.toString();
 
     try {
-      // 🎯 Detect and expand change regions
-      const changeRegions = this.detectChangeRegions(document, changes);
-      const expandedRegions = changeRegions.map(region =>
-        this.expandChangeRegion(region, document, existingBrackets)
-      );
+      const filterResult = this.applyPerformanceFilters(document, text);
+      if (filterResult.shouldSkip || this.shouldUseOriginalParser(document)) {
+        return yield* this.fullParseResult(document, startTime);
+      }
+
+      // 🎯 Fold the edits into the pending damage of the last snapshot
+      this.recordChanges(document, changes);
+
+      const snapshot = this.incrementalSnapshots.get(fileUri);
+      if (!snapshot || snapshot.version !== document.version) {
+        return yield* this.fullParseResult(document, startTime);
+      }
 
-      // 🚀 Process only affected regions
-      let resultBrackets = existingBrackets;
+      if (!snapshot.damage) {
+        return {
+          brackets: this.applyPostParsingFilters(snapshot.brackets, document, filterResult.performanceMode),
+          unfilteredBrackets: snapshot.brackets,
+          affectedRegions: [],
+          parseTime: Date.now() - startTime,
+          cacheHit: true,
+        };
+      }
 
-      for (const region of expandedRegions) {
-        resultBrackets = this.removeBracketsInRegion(resultBrackets, region);
-        const newBrackets = this.parseBracketsInRegion(document, region);
-        resultBrackets = this.mergeBrackets(resultBrackets, newBrackets);
+      const { damage } = snapshot;
+      if (snapshot.textLength - damage.oldEnd + damage.newEnd !== text.length) {
+        return yield* this.fullParseResult(document, startTime);
       }
 
-      // 🧹 Invalidate cache for changed file
-      this.parseStateCache.delete(fileUri);
+      // 🚀 Retokenize only the damaged span and splice it into the cached tree
+      const reparse = this.reparseDamagedRegion(document, text, snapshot, damage);
+      if (!reparse) {
+        return yield* this.fullParseResult(document, startTime);
+      }
+
+      this.storeSnapshot(fileUri, {
+        version: document.version,
+        textLength: text.length,
+        lineStarts: this.spliceLineStarts(snapshot.lineStarts, text, damage),
+        parseStates: reparse.parseStates,
+        brackets: reparse.brackets,
+      });
+      this.parseStateCache.set(fileUri, reparse.parseStates, createHash(text), text.length);
+      this.tokenCache.delete(fileUri);
 
       const parseTime = Date.now() - startTime;
 
       if (BracketLynxConfig.debug) {
-        console.log(`🔄 Incremental parsing: ${parseTime}ms, ${expandedRegions.length} regions`);
+        console.log(
+          `🔄 Incremental parsing: ${parseTime}ms, lines ${reparse.region.startLine + 1}-${reparse.region.endLine + 1}`
+        );
       }
 
       return {
-        brackets: resultBrackets,
-        affectedRegions: expandedRegions,
+        brackets: this.applyPostParsingFilters(reparse.brackets, document, filterResult.performanceMode),
+        unfilteredBrackets: reparse.brackets,
+        affectedRegions: [reparse.region],
         parseTime,
         cacheHit: false
       };
     } catch (error) {
       console.error('🚨 Incremental parsing error, using full parse:', error);
-      
-      const fallbackBrackets = this.parseBrackets(document);
-      return {
-        brackets: fallbackBrackets,
-        affectedRegions: [],
-        parseTime: Date.now() - startTime,
-        cacheHit: false
+      return yield* this.fullParseResult(document, startTime);
+    }
+  }
+
+  /**
+   * Fold document edits into the pending damage of the cached snapshot.
+   * Must see every change event in order; a gap in versions drops the snapshot.
+   */
+  recordChanges(
+    document: vscode.TextDocument,
+    changes: readonly vscode.TextDocumentContentChangeEvent[]
+  ): void {
+    const fileUri = document.uri.toString();
+    const snapshot = this.incrementalSnapshots.get(fileUri);
+
+    if (!snapshot || snapshot.version === document.version) {
+      return;
+    }
+
+    if (snapshot.version !== document.version - 1 || changes.length === 0) {
+      this.incrementalSnapshots.delete(fileUri);
+      return;
+    }
+
+    let damage = snapshot.damage;
+
+    // Changes of one event apply sequentially, each relative to the previous result
+    for (const change of changes) {
+      const changeStart = change.rangeOffset;
+      const changeEnd = change.rangeOffset + change.rangeLength;
+      const lengthDelta = change.text.length - change.rangeLength;
+
+      if (!damage) {
+        damage = { oldStart: changeStart, oldEnd: changeEnd, newEnd: changeEnd + lengthDelta };
+        continue;
+      }
+
+      damage = {
+        oldStart: Math.min(damage.oldStart, changeStart),
+        oldEnd: changeEnd > damage.newEnd ? damage.oldEnd + (changeEnd - damage.newEnd) : damage.oldEnd,
+        newEnd: Math.max(changeEnd, damage.newEnd) + lengthDelta,
       };
     }
+
+    this.storeSnapshot(fileUri, { ...snapshot, version: document.version, damage });
   }
 
   // ============================================================================
   // 🎯 CACHE MANAGEMENT - Unified and Efficient
   // ============================================================================
 
-  private getOrCreateParseStates(text: string, fileUri: string, textHash: string): ParseState[] {
+  private *getOrCreateParseStates(
+    text: string,
+    fileUri: string,
+    textHash: string,
+    languageId: string
+  ): SlicedWork<ParseState[]> {
     // 🚀 Try cache first
     const cached = this.parseStateCache.get(fileUri, textHash);
     if (cached) {
@@ -294,17 +482,17 @@ export class OptimizedBracketParser {
     }
 
     // 🔧 Build new parse states
-    const states = this.buildParseStates(text);
+    const states = yield* this.buildParseStates(text, OptimizedBracketParser.initialState(languageId));
     this.parseStateCache.set(fileUri, states, textHash, text.length);
     
     return states;
   }
 
-  private getOrCreateTokens(
+  private *getOrCreateTokens(
     document: vscode.TextDocument, 
     text: string, 
     textHash: string
-  ): { index: number; token: string }[] {
+  ): SlicedWork<{ index: number; token: string }[]> {
     const fileUri = document.uri.toString();
     
     // 🚀 Try cache first
@@ -314,9 +502,9 @@ export class OptimizedBracketParser {
     }
 
     // 🔧 Create new tokens
-    const languageConfiguration = BracketLynxConfig.languageConfiguration;
+    const languageConfiguration = BracketLynxConfig.getLanguageSpecificConfig(document.languageId);
     const pattern = this.createTokenPattern(languageConfiguration);
-    const tokens = this.tokenizeDocument(text, pattern, languageConfiguration.ignoreCase);
+    const tokens = yield* this.tokenizeDocument(text, pattern, languageConfiguration.ignoreCase);
     
     this.tokenCache.set(fileUri, tokens, textHash, text.length, document.languageId);
     
@@ -327,85 +515,49 @@ export class OptimizedBracketParser {
   // 🔧 PARSING LOGIC - Optimized and Clean
   // ============================================================================
 
-  private buildParseStates(text: string): ParseState[] {
+  /**
+   * Record parse state checkpoints. Scanning resumes right after `from` and stops
+   * before `to`, so a damaged span can be rebuilt alone.
+   */
+  private *buildParseStates(
+    text: string,
+    from: ParseState,
+    to: number = text.length
+  ): SlicedWork<ParseState[]> {
     const states: ParseState[] = [];
-    let inString = false;
-    let inSingleQuote = false;
-    let inDoubleQuote = false;
-    let inTemplateString = false;
-    let inBlockComment = false;
-    let inLineComment = false;
-    let stringEscapeNext = false;
-
-    for (let i = 0; i < text.length; i++) {
-      const char = text[i];
-      const nextChar = i < text.length - 1 ? text[i + 1] : '';
-
-      // 🎯 Handle escape sequences
-      if (inString && stringEscapeNext) {
-        stringEscapeNext = false;
-        continue;
-      }
-
-      if (inString && char === '\\') {
-        stringEscapeNext = true;
-        continue;
-      }
-
-      // 🔧 Handle comments
-      if (!inString && !inBlockComment && char === '/' && nextChar === '/') {
-        inLineComment = true;
-      } else if (inLineComment && char === '\n') {
-        inLineComment = false;
-      }
+    const state: MutableParseState = { ...from };
+    let nextSlice = from.position + 1 + OptimizedBracketParser.CONSTANTS.SLICE_CHARACTERS;
 
-      if (!inString && !inLineComment && char === '/' && nextChar === '*') {
-        inBlockComment = true;
-      } else if (inBlockComment && char === '*' && nextChar === '/') {
-        inBlockComment = false;
-        i++; // Skip the '/' character
-        continue;
-      }
-
-      // 🎯 Handle strings (only if not in comments)
-      if (!inBlockComment && !inLineComment) {
-        if (char === '"' && !inSingleQuote && !inTemplateString) {
-          inDoubleQuote = !inDoubleQuote;
-        } else if (char === "'" && !inDoubleQuote && !inTemplateString) {
-          inSingleQuote = !inSingleQuote;
-        } else if (char === '`' && !inDoubleQuote && !inSingleQuote) {
-          inTemplateString = !inTemplateString;
-        }
+    for (let i = from.position + 1; i < to; i++) {
+      if (nextSlice <= i) {
+        nextSlice = i + OptimizedBracketParser.CONSTANTS.SLICE_CHARACTERS;
+        yield;
       }
-
-      inString = inSingleQuote || inDoubleQuote || inTemplateString;
+      const skip = this.advanceState(text, state, i);
 
       // 🚀 Cache state at intervals
       if (i % OptimizedBracketParser.CONSTANTS.PARSE_CACHE_INTERVAL === 0 || i === text.length - 1) {
-        states.push({
-          position: i,
-          inString,
-          inSingleQuote,
-          inDoubleQuote,
-          inTemplateString,
-          inBlockComment,
-          inLineComment,
-          stringEscapeNext,
-        });
+        states.push({ ...state });
       }
+      i += skip;
     }
 
     return states;
   }
 
   private findClosestState(states: ParseState[], position: number): ParseState | null {
+    // States are ordered by position, so binary search for the last one at or before it
+    let low = 0;
+    let high = states.length - 1;
     let closest: ParseState | null = null;
 
-    for (const state of states) {
-      if (state.position <= position) {
-        closest = state;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (states[middle].position <= position) {
+        closest = states[middle];
+        low = middle + 1;
       } else {
-        break; // States are ordered by position
+        high = middle - 1;
       }
     }
 
@@ -417,92 +569,118 @@ export class OptimizedBracketParser {
     startState: ParseState,
     targetPosition: number
   ): ParseState {
-    let inString = startState.inString;
-    let inSingleQuote = startState.inSingleQuote;
-    let inDoubleQuote = startState.inDoubleQuote;
-    let inTemplateString = startState.inTemplateString;
-    let inBlockComment = startState.inBlockComment;
-    let inLineComment = startState.inLineComment;
-    let stringEscapeNext = startState.stringEscapeNext;
+    const state: MutableParseState = { ...startState };
 
     for (let i = startState.position + 1; i <= targetPosition; i++) {
-      const char = text[i];
-      const nextChar = i < text.length - 1 ? text[i + 1] : '';
+      i += this.advanceState(text, state, i);
+    }
 
-      // Handle escape sequences
-      if (inString && stringEscapeNext) {
-        stringEscapeNext = false;
-        continue;
-      }
+    return { ...state, position: targetPosition };
+  }
 
-      if (inString && char === '\\') {
-        stringEscapeNext = true;
-        continue;
+  /**
+   * Move the state past the character at `index`. Returns how many following
+   * characters were consumed with it, such as the `{` of `${`.
+   * `inString` also covers the delimiters of a `${ … }` substitution, so their
+   * braces are never read as brackets.
+   */
+  private advanceState(text: string, state: MutableParseState, index: number): number {
+    const char = text[index];
+    const nextChar = index < text.length - 1 ? text[index + 1] : '';
+    let isTemplateDelimiter = false;
+    let skip = 0;
+
+    if (state.stringEscapeNext) {
+      // 🎯 Escaped character inside a string or regex
+      state.stringEscapeNext = false;
+    } else if (state.inLineComment) {
+      state.inLineComment = char !== '\n';
+    } else if (state.inBlockComment) {
+      if (char === '*' && nextChar === '/') {
+        state.inBlockComment = false;
+        skip = 1;
       }
-
-      // Handle line comments
-      if (!inString && !inBlockComment && char === '/' && nextChar === '/') {
-        inLineComment = true;
-      } else if (inLineComment && char === '\n') {
-        inLineComment = false;
+    } else if (state.inRegex) {
+      if (char === '\\') {
+        state.stringEscapeNext = true;
+      } else if (char === '\n') {
+        // Regex literals never span lines, so this was a division after all
+        state.inRegex = false;
+        state.inRegexClass = false;
+      } else if (state.inRegexClass) {
+        state.inRegexClass = char !== ']';
+      } else if (char === '[') {
+        state.inRegexClass = true;
+      } else if (char === '/') {
+        state.inRegex = false;
       }
-
-      // Handle block comments
-      if (!inString && !inLineComment && char === '/' && nextChar === '*') {
-        inBlockComment = true;
-      } else if (inBlockComment && char === '*' && nextChar === '/') {
-        inBlockComment = false;
-        i++; // Skip the '/' character
-        continue;
+    } else if (state.inSingleQuote || state.inDoubleQuote) {
+      if (char === '\\') {
+        state.stringEscapeNext = true;
+      } else if (char === (state.inSingleQuote ? "'" : '"')) {
+        state.inSingleQuote = false;
+        state.inDoubleQuote = false;
       }
-
-      // Handle strings
-      if (!inBlockComment && !inLineComment) {
-        if (char === '"' && !inSingleQuote && !inTemplateString) {
-          inDoubleQuote = !inDoubleQuote;
-        } else if (char === "'" && !inDoubleQuote && !inTemplateString) {
-          inSingleQuote = !inSingleQuote;
-        } else if (char === '`' && !inDoubleQuote && !inSingleQuote) {
-          inTemplateString = !inTemplateString;
-        }
+    } else if (state.inTemplateString) {
+      if (char === '\\') {
+        state.stringEscapeNext = true;
+      } else if (char === '`') {
+        state.inTemplateString = false;
+      } else if (char === '$' && nextChar === '{') {
+        // 🔧 Code inside `${ … }` is parsed like any other code
+        state.inTemplateString = false;
+        state.templateBraces = [...state.templateBraces, 0];
+        isTemplateDelimiter = true;
+        skip = 1;
+      }
+    } else if (char === '/' && nextChar === '/') {
+      state.inLineComment = true;
+    } else if (char === '/' && nextChar === '*') {
+      state.inBlockComment = true;
+      skip = 1;
+    } else if (char === '/' && state.scriptSyntax) {
+      state.inRegex = isRegexStart(text, index);
+    } else if (char === '"') {
+      state.inDoubleQuote = true;
+    } else if (char === "'") {
+      state.inSingleQuote = true;
+    } else if (char === '`' && state.scriptSyntax) {
+      state.inTemplateString = true;
+    } else if (state.templateBraces.length > 0 && (char === '{' || char === '}')) {
+      const depth = state.templateBraces[state.templateBraces.length - 1];
+      const outer = state.templateBraces.slice(0, -1);
+      if (char === '{') {
+        state.templateBraces = [...outer, depth + 1];
+      } else if (depth > 0) {
+        state.templateBraces = [...outer, depth - 1];
+      } else {
+        // 🎯 This `}` closes the substitution and resumes the template text
+        state.templateBraces = outer;
+        state.inTemplateString = true;
       }
-
-      inString = inSingleQuote || inDoubleQuote || inTemplateString;
     }
 
-    return {
-      position: targetPosition,
-      inString,
-      inSingleQuote,
-      inDoubleQuote,
-      inTemplateString,
-      inBlockComment,
-      inLineComment,
-      stringEscapeNext,
-    };
+    state.position = index + skip;
+    state.inString =
+      state.inSingleQuote || state.inDoubleQuote || state.inTemplateString || isTemplateDelimiter;
+    return skip;
   }
 
   private isInsideCommentOrString(position: number, text: string, parseStates: ParseState[]): boolean {
-    const closestState = this.findClosestState(parseStates, position);
+    const state = this.getStateAt(position, text, parseStates);
+    return state !== null && this.isInsideCommentOrStringState(state);
+  }
 
-    if (!closestState) {
-      return false;
-    }
+  private isInsideCommentOrStringState(state: ParseState): boolean {
+    return state.inString || state.inRegex || state.inBlockComment || state.inLineComment;
+  }
 
-    if (closestState.position === position) {
-      return (
-        closestState.inString ||
-        closestState.inBlockComment ||
-        closestState.inLineComment
-      );
+  private getStateAt(position: number, text: string, parseStates: ParseState[]): ParseState | null {
+    const closestState = this.findClosestState(parseStates, position);
+    if (!closestState || closestState.position === position) {
+      return closestState;
     }
-
-    const currentState = this.calculateStateFromPosition(text, closestState, position);
-    return (
-      currentState.inString ||
-      currentState.inBlockComment ||
-      currentState.inLineComment
-    );
+    return this.calculateStateFromPosition(text, closestState, position);
   }
 
   // ============================================================================
@@ -538,15 +716,18 @@ export class OptimizedBracketParser {
       .join('|');
   }
 
-  private tokenizeDocument(
+  private *tokenizeDocument(
     text: string,
     pattern: string,
     ignoreCase: boolean
-  ): { index: number; token: string }[] {
+  ): SlicedWork<{ index: number; token: string }[]> {
     const result: { index: number; token: string }[] = [];
     const regexp = new RegExp(pattern, ignoreCase ? 'gui' : 'gu');
 
     while (true) {
+      if (result.length % OptimizedBracketParser.CONSTANTS.SLICE_TOKENS === 0) {
+        yield;
+      }
       const match = regexp.exec(text);
       if (null === match) {
         break;
@@ -560,14 +741,30 @@ export class OptimizedBracketParser {
     return result;
   }
 
-  private parseTokensOptimized(
+  private *parseTokensOptimized(
     document: vscode.TextDocument,
     tokens: { index: number; token: string }[],
     parseStates: ParseState[]
-  ): BracketEntry[] {
-    const result: BracketEntry[] = [];
+  ): SlicedWork<BracketEntry[], ParseProgress> {
     const text = document.getText();
-    const languageConfiguration = BracketLynxConfig.languageConfiguration;
+    return (yield* this.scanBracketTokens(document, text, tokens, parseStates, text.length)).brackets;
+  }
+
+  /**
+   * Build bracket entries from tokens. Scopes still open after the last token are
+   * flushed at `flushAt` (end of file) or, when null, only counted in `openScopes`.
+   * Progress reports carry the scopes closed before the current token.
+   */
+  private *scanBracketTokens(
+    document: vscode.TextDocument,
+    text: string,
+    tokens: { index: number; token: string }[],
+    parseStates: ParseState[],
+    flushAt: number | null
+  ): SlicedWork<{ brackets: BracketEntry[]; openScopes: number; hasUnderflow: boolean }, ParseProgress> {
+    const result: BracketEntry[] = [];
+    let hasUnderflow = false;
+    const languageConfiguration = BracketLynxConfig.getLanguageSpecificConfig(document.languageId);
     const regulate = languageConfiguration.ignoreCase
       ? (text: string) => text.replace(/\s+/, ' ').toLowerCase()
       : (text: string) => text.replace(/\s+/, ' ');
@@ -611,6 +808,7 @@ export class OptimizedBracketParser {
         });
       } else {
         // Extra closing bracket
+        hasUnderflow = true;
         writeCore({
           start: {
             position: document.positionAt(closingToken.index),
@@ -628,7 +826,14 @@ export class OptimizedBracketParser {
     };
 
     // 🚀 Process tokens with optimized state checking
-    for (const tokenData of tokens) {
+    for (const [tokenIndex, tokenData] of tokens.entries()) {
+      if (0 < tokenIndex && tokenIndex % OptimizedBracketParser.CONSTANTS.SLICE_TOKENS === 0) {
+        // Completed entries sit in the result, then in each open scope from the outermost in
+        yield {
+          offset: tokenData.index,
+          brackets: () => [...result, ...scopeStack.flatMap((scope) => scope.items)],
+        };
+      }
       const token = regulate(tokenData.token);
 
       // Skip if inside comment or string (optimized check)
@@ -658,12 +863,16 @@ export class OptimizedBracketParser {
       }
     }
 
+    const openScopes = scopeStack.length;
+
     // Process remaining scopes
-    while (scopeStack.length > 0) {
-      write({ index: text.length, token: '' });
+    if (flushAt !== null) {
+      while (scopeStack.length > 0) {
+        write({ index: flushAt, token: '' });
+      }
     }
 
-    return result;
+    return { brackets: result, openScopes, hasUnderflow };
   }
 
   // ============================================================================
@@ -675,6 +884,20 @@ export class OptimizedBracketParser {
     const lineCount = document.lineCount;
     const fileName = document.fileName.toLowerCase();
 
+    // ⏱️ Files that measured slow keep the stricter of both modes
+    const adaptiveMode = this.getAdaptiveMode(document.uri.toString());
+
+    // 🔓 Decorated anyway: nothing is skipped, large files still get the lighter filters
+    if (BracketLynxConfig.isForceDecorated(document)) {
+      return {
+        shouldSkip: false,
+        performanceMode: this.stricterMode(
+          fileSize > OptimizedBracketParser.CONSTANTS.MAX_SAFE_FILE_SIZE ? 'performance' : 'normal',
+          adaptiveMode
+        ),
+      };
+    }
+
     // 🚨 Check extreme file size - completely skip
     if (fileSize > OptimizedBracketParser.CONSTANTS.MAX_EXTREME_FILE_SIZE) {
       return {
@@ -686,7 +909,7 @@ export class OptimizedBracketParser {
 
     // 🎯 Check if file is likely minified
     const avgLineLength = fileSize / lineCount;
-    if (avgLineLength > 500) {
+    if (avgLineLength > BracketLynxConfig.minifiedLineLength) {
       return {
         shouldSkip: true,
         reason: `Likely minified file (avg line length: ${Math.round(avgLineLength)} chars)`,
@@ -695,7 +918,7 @@ export class OptimizedBracketParser {
     }
 
     // 🔧 Check for problematic file types
-    const problematicExtensions = ['.min.js', '.min.css', '.bundle.js', '.chunk.js'];
+    const problematicExtensions = BracketLynxConfig.minifiedFileSuffixes.map((ext) => ext.toLowerCase());
     if (problematicExtensions.some((ext) => fileName.endsWith(ext))) {
       return {
         shouldSkip: true,
@@ -708,20 +931,87 @@ export class OptimizedBracketParser {
     if (fileSize > OptimizedBracketParser.CONSTANTS.MAX_SAFE_FILE_SIZE) {
       return {
         shouldSkip: false,
-        performanceMode: 'performance',
+        performanceMode: this.stricterMode('performance', adaptiveMode),
       };
     }
 
     return {
       shouldSkip: false,
-      performanceMode: 'normal',
+      performanceMode: adaptiveMode,
     };
   }
 
+  private stricterMode(a: PerformanceMode, b: PerformanceMode): PerformanceMode {
+    const modes = OptimizedBracketParser.PERFORMANCE_MODES;
+    return modes[Math.max(modes.indexOf(a), modes.indexOf(b))];
+  }
+
+  // ============================================================================
+  // ⏱️ ADAPTIVE PERFORMANCE MODE - Filters follow measured update times
+  // ============================================================================
+
+  /**
+   * Record how long a document took to parse and build its headers. Slower than
+   * `bracketLynx.updateTimeBudget` steps it down to stricter filters, under half
+   * of it steps it back up; each step starts a fresh average.
+   */
+  recordUpdateTime(fileUri: string, time: number): void {
+    const budget = BracketLynxConfig.updateTimeBudget;
+    const timing = this.adaptiveTimings.get(fileUri);
+    if (budget <= 0) {
+      this.adaptiveTimings.delete(fileUri);
+      return;
+    }
+
+    const mode = timing?.mode ?? 'normal';
+    const averageTime = timing?.averageTime === undefined ? time : (timing.averageTime + time) / 2;
+    const modes = OptimizedBracketParser.PERFORMANCE_MODES;
+    const index = modes.indexOf(mode);
+    const stepped =
+      averageTime > budget && index < modes.length - 1
+        ? modes[index + 1]
+        : averageTime < budget / 2 && index > 0
+          ? modes[index - 1]
+          : mode;
+
+    if (stepped !== mode && BracketLynxConfig.debug) {
+      console.log(`⏱️ ${fileUri}: ${Math.round(averageTime)}ms per update, switching to ${stepped} filters`);
+    }
+
+    // Re-insert so the map stays ordered from least to most recently used
+    this.adaptiveTimings.delete(fileUri);
+    this.adaptiveTimings.set(fileUri, {
+      mode: stepped,
+      averageTime: stepped === mode ? averageTime : undefined,
+      lastTime: time,
+    });
+    if (this.adaptiveTimings.size > OptimizedBracketParser.CONSTANTS.MAX_ADAPTIVE_TIMINGS) {
+      const oldestKey = this.adaptiveTimings.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.adaptiveTimings.delete(oldestKey);
+      }
+    }
+  }
+
+  getAdaptiveMode(fileUri: string): PerformanceMode {
+    return BracketLynxConfig.updateTimeBudget > 0 ? (this.adaptiveTimings.get(fileUri)?.mode ?? 'normal') : 'normal';
+  }
+
+  /**
+   * Mirror a mode chosen elsewhere; the parse worker follows the extension host's measurements
+   */
+  setAdaptiveMode(fileUri: string, mode: PerformanceMode): void {
+    if (mode === 'normal') {
+      this.adaptiveTimings.delete(fileUri);
+    } else {
+      this.adaptiveTimings.set(fileUri, { mode, lastTime: this.adaptiveTimings.get(fileUri)?.lastTime ?? 0 });
+    }
+  }
+
   private applyPostParsingFilters(
     brackets: BracketEntry[],
     document: vscode.TextDocument,
-    performanceMode: 'normal' | 'performance' | 'minimal'
+    performanceMode: PerformanceMode
   ): BracketEntry[] {
     switch (performanceMode) {
       case 'minimal':
@@ -742,130 +1032,295 @@ export class OptimizedBracketParser {
   }
 
   private applyPerformanceModeFilters(brackets: BracketEntry[], document: vscode.TextDocument): BracketEntry[] {
-    return brackets
-      .filter((bracket) => {
-        const lineSpan = bracket.end.position.line - bracket.start.position.line;
-        return lineSpan >= OptimizedBracketParser.CONSTANTS.MIN_BRACKET_LINES + 2;
-      })
-      .slice(0, Math.floor(OptimizedBracketParser.CONSTANTS.MAX_DECORATIONS_PER_FILE * 0.7));
+    const filtered = brackets.filter((bracket) => {
+      const lineSpan = bracket.end.position.line - bracket.start.position.line;
+      return lineSpan >= OptimizedBracketParser.CONSTANTS.MIN_BRACKET_LINES + 2;
+    });
+    return this.limitTopLevelScopes(filtered, 0.7);
   }
 
   private applyMinimalFilters(brackets: BracketEntry[], document: vscode.TextDocument): BracketEntry[] {
-    return brackets
-      .filter((bracket) => {
-        const lineSpan = bracket.end.position.line - bracket.start.position.line;
-        return lineSpan >= OptimizedBracketParser.CONSTANTS.MIN_BRACKET_LINES + 5;
-      })
-      .slice(0, Math.floor(OptimizedBracketParser.CONSTANTS.MAX_DECORATIONS_PER_FILE * 0.3));
+    const filtered = brackets.filter((bracket) => {
+      const lineSpan = bracket.end.position.line - bracket.start.position.line;
+      return lineSpan >= OptimizedBracketParser.CONSTANTS.MIN_BRACKET_LINES + 5;
+    });
+    return this.limitTopLevelScopes(filtered, 0.3);
+  }
+
+  /**
+   * Keep a share of the decoration budget from the top of the file. In viewport mode only the
+   * lines around the viewport are decorated, so every scope is kept and the end of the file still works.
+   */
+  private limitTopLevelScopes(brackets: BracketEntry[], share: number): BracketEntry[] {
+    if (BracketLynxConfig.viewportMode !== 'off') {
+      return brackets;
+    }
+    return brackets.slice(0, Math.floor(OptimizedBracketParser.CONSTANTS.MAX_DECORATIONS_PER_FILE * share));
   }
 
   // ============================================================================
   // 🔄 INCREMENTAL PARSING HELPERS
   // ============================================================================
 
-  private detectChangeRegions(
-    document: vscode.TextDocument,
-    changes: readonly vscode.TextDocumentContentChangeEvent[]
-  ): ChangeRegion[] {
-    const regions: ChangeRegion[] = [];
-
-    for (const change of changes) {
-      if (!change.range) {
-        // If no range, entire document changed
-        return [{
-          startLine: 0,
-          endLine: document.lineCount - 1,
-          startChar: 0,
-          endChar: document.getText().length,
-        }];
-      }
+  private *fullParseResult(document: vscode.TextDocument, startTime: number): SlicedWork<ParseResult, ParseProgress> {
+    return {
+      ...(yield* this.parseTreesInSlices(document)),
+      affectedRegions: [{
+        startLine: 0,
+        endLine: document.lineCount - 1,
+        startChar: 0,
+        endChar: document.getText().length,
+      }],
+      parseTime: Date.now() - startTime,
+      cacheHit: false
+    };
+  }
 
-      const startLine = change.range.start.line;
-      const endLine = change.range.end.line;
-      const startChar = document.offsetAt(change.range.start);
-      const endChar = document.offsetAt(change.range.end);
+  private storeSnapshot(fileUri: string, snapshot: IncrementalSnapshot): void {
+    // Re-insert so the map stays ordered from least to most recently used
+    this.incrementalSnapshots.delete(fileUri);
+    this.incrementalSnapshots.set(fileUri, snapshot);
 
-      regions.push({
-        startLine,
-        endLine: Math.max(endLine, startLine + change.text.split('\n').length - 1),
-        startChar,
-        endChar: startChar + change.text.length,
-      });
+    if (this.incrementalSnapshots.size > OptimizedBracketParser.CONSTANTS.MAX_INCREMENTAL_SNAPSHOTS) {
+      const oldestKey = this.incrementalSnapshots.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.incrementalSnapshots.delete(oldestKey);
+      }
     }
-
-    return regions;
   }
 
-  private expandChangeRegion(
-    region: ChangeRegion,
-    document: vscode.TextDocument,
-    existingBrackets: BracketEntry[]
-  ): ChangeRegion {
-    const text = document.getText();
-    let minStart = region.startChar;
-    let maxEnd = region.endChar;
+  private computeLineStarts(text: string): number[] {
+    const lineStarts = [0];
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+      lineStarts.push(i + 1);
+    }
+    return lineStarts;
+  }
 
-    // Look for brackets that might be affected by this change
-    for (const bracket of existingBrackets) {
-      const openPos = document.offsetAt(bracket.start.position);
-      const closePos = document.offsetAt(bracket.end.position);
+  private spliceLineStarts(lineStarts: number[], text: string, damage: PendingDamage): number[] {
+    const delta = damage.newEnd - damage.oldEnd;
+    const result = lineStarts.filter((start) => start <= damage.oldStart);
 
-      // If bracket spans across or near the change region
-      if (
-        (openPos >= region.startChar - 200 && openPos <= region.endChar + 200) ||
-        (closePos >= region.startChar - 200 && closePos <= region.endChar + 200)
-      ) {
-        minStart = Math.min(minStart, openPos - 100);
-        maxEnd = Math.max(maxEnd, closePos + 100);
+    for (let i = text.indexOf('\n', damage.oldStart); i !== -1 && i < damage.newEnd; i = text.indexOf('\n', i + 1)) {
+      result.push(i + 1);
+    }
+    for (const start of lineStarts) {
+      if (start > damage.oldEnd) {
+        result.push(start + delta);
       }
     }
 
-    // Ensure we don't go out of bounds
-    minStart = Math.max(0, minStart);
-    maxEnd = Math.min(text.length, maxEnd);
-
-    const expandedStartLine = Math.max(0, document.positionAt(minStart).line - 1);
-    const expandedEndLine = Math.min(document.lineCount - 1, document.positionAt(maxEnd).line + 1);
+    return result;
+  }
 
-    return {
-      startLine: expandedStartLine,
-      endLine: expandedEndLine,
-      startChar: minStart,
-      endChar: maxEnd,
-    };
+  private lineOfOffset(lineStarts: number[], offset: number): number {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
   }
 
-  private removeBracketsInRegion(brackets: BracketEntry[], region: ChangeRegion): BracketEntry[] {
-    return brackets.filter((bracket) => {
-      return !(
-        bracket.start.position.line >= region.startLine &&
-        bracket.end.position.line <= region.endLine
+  /**
+   * Reparse the smallest bracket window around the damage and splice it into the
+   * previous tree. Returns null when the edit can change pairing outside every
+   * candidate window, in which case the caller falls back to a full parse.
+   */
+  private reparseDamagedRegion(
+    document: vscode.TextDocument,
+    text: string,
+    snapshot: IncrementalSnapshot,
+    damage: PendingDamage
+  ): { brackets: BracketEntry[]; parseStates: ParseState[]; region: ChangeRegion } | null {
+    const oldOffset = (position: vscode.Position) =>
+      snapshot.lineStarts[position.line] + position.character;
+
+    // 🎯 Collect the chain of scopes whose interior fully contains the damage
+    const containers: BracketEntry[] = [];
+    let level = snapshot.brackets;
+    while (true) {
+      const container = level.find((entry) =>
+        entry.end.token !== '' &&
+        oldOffset(entry.start.position) + entry.start.token.length <= damage.oldStart &&
+        damage.oldEnd <= oldOffset(entry.end.position) - entry.end.token.length
       );
+      if (!container) {
+        break;
+      }
+      containers.push(container);
+      level = container.items;
+    }
+
+    const delta = damage.newEnd - damage.oldEnd;
+    const oldEndLine = this.lineOfOffset(snapshot.lineStarts, damage.oldEnd);
+    const lineDelta = document.positionAt(damage.newEnd).line - oldEndLine;
+
+    const shiftPosition = (position: vscode.Position): vscode.Position =>
+      position.line > oldEndLine
+        ? new vscode.Position(position.line + lineDelta, position.character)
+        : document.positionAt(oldOffset(position) + delta);
+
+    const shiftEntry = (entry: BracketEntry): BracketEntry => ({
+      ...entry,
+      start: { ...entry.start, position: shiftPosition(entry.start.position) },
+      end: { ...entry.end, position: shiftPosition(entry.end.position) },
+      items: entry.items.map(shiftEntry),
     });
-  }
 
-  private parseBracketsInRegion(document: vscode.TextDocument, region: ChangeRegion): BracketEntry[] {
-    // For now, use full parsing - this could be optimized further
-    return this.parseBrackets(document).filter((bracket) => {
-      return (
-        bracket.start.position.line >= region.startLine &&
-        bracket.end.position.line <= region.endLine
+    // 🚀 Try the innermost scope first, widening until the window stays balanced
+    for (let depth = containers.length; depth >= 0; depth--) {
+      const container = depth > 0 ? containers[depth - 1] : null;
+      const siblings = container ? container.items : snapshot.brackets;
+
+      const before = siblings.filter((entry) =>
+        entry.end.token !== '' && oldOffset(entry.end.position) <= damage.oldStart
       );
-    });
+      const after = siblings.filter((entry) => oldOffset(entry.start.position) >= damage.oldEnd);
+
+      const startAnchor = before.length > 0 ? before[before.length - 1].end : container?.start;
+      const endAnchor = after.length > 0 ? after[0].start : container?.end;
+
+      const windowStart = startAnchor
+        ? oldOffset(startAnchor.position) + (startAnchor === container?.start ? startAnchor.token.length : 0)
+        : 0;
+      const oldWindowEnd = endAnchor
+        ? oldOffset(endAnchor.position) - (endAnchor === container?.end ? endAnchor.token.length : 0)
+        : snapshot.textLength;
+
+      const window = this.reparseWindow(document, text, snapshot, {
+        windowStart,
+        oldWindowEnd,
+        delta,
+        startToken: startAnchor?.token ?? '',
+        endToken: endAnchor?.token ?? '',
+        isRoot: container === null,
+      });
+      if (!window) {
+        continue;
+      }
+
+      // 🔧 Splice the new entries back in, rebuilding every ancestor on the path
+      let items = [...before, ...window.brackets, ...after.map(shiftEntry)];
+      for (let i = depth - 1; i >= 0; i--) {
+        const rebuilt: BracketEntry = {
+          ...containers[i],
+          end: { ...containers[i].end, position: shiftPosition(containers[i].end.position) },
+          items,
+        };
+        const parentLevel = i > 0 ? containers[i - 1].items : snapshot.brackets;
+        const index = parentLevel.indexOf(containers[i]);
+        items = [
+          ...parentLevel.slice(0, index),
+          rebuilt,
+          ...parentLevel.slice(index + 1).map(shiftEntry),
+        ];
+      }
+
+      const newWindowEnd = oldWindowEnd + delta;
+      return {
+        brackets: items,
+        parseStates: window.parseStates,
+        region: {
+          startLine: document.positionAt(windowStart).line,
+          endLine: document.positionAt(newWindowEnd).line,
+          startChar: windowStart,
+          endChar: newWindowEnd,
+        },
+      };
+    }
+
+    return null;
   }
 
-  private mergeBrackets(existingBrackets: BracketEntry[], newBrackets: BracketEntry[]): BracketEntry[] {
-    const allBrackets = [...existingBrackets, ...newBrackets];
+  private reparseWindow(
+    document: vscode.TextDocument,
+    text: string,
+    snapshot: IncrementalSnapshot,
+    window: {
+      windowStart: number;
+      oldWindowEnd: number;
+      delta: number;
+      startToken: string;
+      endToken: string;
+      isRoot: boolean;
+    }
+  ): { brackets: BracketEntry[]; parseStates: ParseState[] } | null {
+    const { windowStart, oldWindowEnd, delta, startToken, endToken, isRoot } = window;
+    const newWindowEnd = oldWindowEnd + delta;
+    const reachesEnd = newWindowEnd >= text.length;
+
+    // 🎯 Resume from the nearest checkpoint whose lookahead character is untouched
+    const keptStates = snapshot.parseStates.filter((state) => state.position < windowStart - 1);
+    const initialState = OptimizedBracketParser.initialState(document.languageId);
+    const closestState = keptStates[keptStates.length - 1] ?? initialState;
+    const resumeState = windowStart > 0
+      ? this.calculateStateFromPosition(text, closestState, windowStart - 1)
+      : initialState;
+
+    const windowStates = TimeSlicer.runSync(this.buildParseStates(text, resumeState, newWindowEnd));
+    const shiftedStates = snapshot.parseStates
+      .filter((state) => state.position >= oldWindowEnd)
+      .map((state) => ({ ...state, position: state.position + delta }));
+    const parseStates = [
+      ...keptStates,
+      ...(windowStart > 0 ? [resumeState] : []),
+      ...windowStates,
+      ...shiftedStates,
+    ];
 
-    // Sort by opening position
-    allBrackets.sort((a, b) => {
-      if (a.start.position.line !== b.start.position.line) {
-        return a.start.position.line - b.start.position.line;
+    // 🔧 Everything after the window is reused, so it must resume in plain code
+    // at the same template nesting; sibling scopes always share one nesting level
+    if (!reachesEnd) {
+      const endState = this.getStateAt(newWindowEnd - 1, text, parseStates);
+      if (
+        !endState ||
+        this.isInsideCommentOrStringState(endState) ||
+        endState.templateBraces.join() !== resumeState.templateBraces.join()
+      ) {
+        return null;
       }
-      return a.start.position.character - b.start.position.character;
-    });
+    }
+
+    // 🚀 Tokenize the window together with its anchor tokens so matches line up with a full pass
+    const languageConfiguration = BracketLynxConfig.getLanguageSpecificConfig(document.languageId);
+    const pattern = this.createTokenPattern(languageConfiguration);
+    const sliceStart = windowStart - startToken.length;
+    const tokens = TimeSlicer.runSync(
+      this.tokenizeDocument(text.slice(sliceStart, newWindowEnd + endToken.length), pattern, languageConfiguration.ignoreCase)
+    ).map((token) => ({ index: token.index + sliceStart, token: token.token }));
+
+    if (startToken !== '') {
+      const first = tokens.shift();
+      if (!first || first.index !== sliceStart || first.token !== startToken) {
+        return null;
+      }
+    }
+    if (endToken !== '') {
+      const last = tokens.pop();
+      if (!last || last.index !== newWindowEnd || last.token !== endToken) {
+        return null;
+      }
+    }
 
-    return allBrackets;
+    const scan = TimeSlicer.runSync(
+      this.scanBracketTokens(document, text, tokens, parseStates, reachesEnd ? text.length : null)
+    );
+
+    // 🎯 Inside a scope the window must stay balanced; at top level only dangling openers matter
+    if (!isRoot && (scan.hasUnderflow || scan.openScopes > 0)) {
+      return null;
+    }
+    if (isRoot && !reachesEnd && scan.openScopes > 0) {
+      return null;
+    }
+
+    return { brackets: scan.brackets, parseStates };
   }
 
   // ============================================================================
@@ -876,6 +1331,16 @@ export class OptimizedBracketParser {
     const languageId = document.languageId;
     const fileName = document.fileName.toLowerCase();
 
+    // User grammars bring their own comments and strings, which only the token-driven parser reads
+    if (isConfiguredLanguage(languageId)) {
+      return true;
+    }
+
+    // Built-in grammars (keyword blocks, indentation) are only read by the token-driven parser
+    if (BracketLynxConfig.hasBuiltInGrammar(languageId)) {
+      return true;
+    }
+
     // Check if language is problematic
     if (this.parserExceptionConfig.problematicLanguages.includes(languageId)) {
       return true;
@@ -934,11 +1399,13 @@ export class OptimizedBracketParser {
   clearAllCache(): void {
     this.parseStateCache.clear();
     this.tokenCache.clear();
+    this.incrementalSnapshots.clear();
   }
 
   clearFileCache(fileUri: string): void {
     this.parseStateCache.delete(fileUri);
     this.tokenCache.delete(fileUri);
+    this.incrementalSnapshots.delete(fileUri);
   }
 
   cleanup(): void {
@@ -1037,11 +1504,15 @@ export class OptimizedBracketParser {
     };
     memoryUsage: number;
     config: ParserExceptionConfig;
+    updateTimeBudget: number;
+    adaptiveModes: Record<string, AdaptiveTiming>;
   } {
     return {
       cacheStats: this.getCacheStats(),
       memoryUsage: this.getMemoryUsage(),
       config: this.parserExceptionConfig,
+      updateTimeBudget: BracketLynxConfig.updateTimeBudget,
+      adaptiveModes: Object.fromEntries(this.adaptiveTimings),
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,82 @@
+import type * as vscode from 'vscode';
+
+// ============================================================================
+// ⏳ TIME SLICER - Long passes split into slices that yield to the event loop
+// ============================================================================
+
+/**
+ * A pass written as a generator: it yields between batches of work, optionally
+ * with a progress report, and returns its result.
+ */
+export type SlicedWork<T, P = never> = Generator<P | undefined, T, undefined>;
+
+export interface SliceOptions<P> {
+  // Milliseconds before progress reports are passed on, 0 to never report
+  readonly budget: number;
+  readonly token?: vscode.CancellationToken;
+  // Checked before each slice, e.g. for a document edited since the pass started
+  readonly shouldStop?: () => boolean;
+  readonly onProgress?: (progress: P) => void;
+}
+
+export class TimeSlicer {
+  // Longest run before giving the event loop a turn
+  static readonly SLICE_TIME = 8;
+
+  /**
+   * Run a pass to completion in one synchronous call
+   */
+  static runSync<T>(work: SlicedWork<T, unknown>): T {
+    let step = work.next();
+    while (!step.done) {
+      step = work.next();
+    }
+    return step.value;
+  }
+
+  /**
+   * Run a pass in slices, with `setImmediate` between them. Resolves undefined when
+   * the token is cancelled or `shouldStop` says so; `busyTime` leaves out the waits.
+   */
+  static async run<T, P>(
+    work: SlicedWork<T, P>,
+    options: SliceOptions<P>
+  ): Promise<{ value: T; busyTime: number } | undefined> {
+    const startTime = Date.now();
+    let sliceStart = startTime;
+    let busyTime = 0;
+
+    let step = work.next();
+    while (!step.done) {
+      const now = Date.now();
+      if (step.value !== undefined && 0 < options.budget && options.budget <= now - startTime) {
+        options.onProgress?.(step.value);
+      }
+
+      if (this.SLICE_TIME <= now - sliceStart) {
+        busyTime += now - sliceStart;
+        await new Promise<void>((resolve) => setImmediate(resolve));
+        if (options.token?.isCancellationRequested || options.shouldStop?.()) {
+          work.return(undefined as T);
+          return undefined;
+        }
+        sliceStart = Date.now();
+      }
+      step = work.next();
+    }
+
+    return { value: step.value, busyTime: busyTime + Date.now() - sliceStart };
+  }
+
+  /**
+   * Pass a pass's yields on as one fixed progress report
+   */
+  static *report<T, P>(work: SlicedWork<T, unknown>, progress: P): SlicedWork<T, P> {
+    let step = work.next();
+    while (!step.done) {
+      yield progress;
+      step = work.next();
+    }
+    return step.value;
+  }
+}
@@ -1,9 +1,16 @@
 import * as vscode from 'vscode';
-import { BracketLynx } from './lens/lens';
+import { BracketLynx, CacheManager } from './lens/lens';
 import FrameworksDecorator, { onDidChangeTextDocumentFrameworks } from './lens/decorators/frameworks-decorator';
 import { setBracketLynxProviderForColors, setFrameworkDecoratorForColors } from './actions/colors';
 import { initializeErrorHandling, LogLevel, logger } from './core/performance-config';
-import { showBracketLynxMenu, setBracketLynxProvider, setFrameworkDecorator, cleanupClosedEditor, initializePersistedState } from './actions/toggle';
+import { ParseWorkerClient } from './core/parse-worker-client';
+import { LanguageRegistry } from './core/language-registry';
+import { BracketDiagnostics, UnmatchedBracketCodeActionProvider } from './lens/bracket-diagnostics';
+import { RenderModeProviders } from './lens/render-providers';
+import { UpdateMode } from './lens/update-mode';
+import { DecorationQueue } from './lens/decoration-queue';
+import { BracketLynxStatusBar } from './actions/status-bar';
+import { showBracketLynxMenu, forceDecorateCurrentFile, setBracketLynxProvider, setFrameworkDecorator, cleanupClosedEditor, initializePersistedState } from './actions/toggle';
 
 export let extensionContext: vscode.ExtensionContext;
 
@@ -11,62 +18,45 @@ export let extensionContext: vscode.ExtensionContext;
 // FRAMEWORKS COORDINATOR WITHOUT FLICKERING - Single source of truth
 // ============================================================================
 class DecorationCoordinator {
-    private static updateInProgress = false;
-    private static pendingUpdates = new Set<string>();
-    private static readonly COORDINATION_DELAY = 8; // Reduced delay for faster response (~120fps)
+    private static readonly queue = new DecorationQueue((editor, token) => DecorationCoordinator.runUpdate(editor, token));
 
     /**
-     * Coordinated update to avoid flickering
+     * Coordinated update to avoid flickering, queued per editor
      */
-    public static async coordinatedUpdate(editor?: vscode.TextEditor): Promise<void> {
-        if (!editor) {
-            return;
+    public static coordinatedUpdate(editor?: vscode.TextEditor): void {
+        if (editor) {
+            this.queue.enqueue(editor);
         }
+    }
 
-        const editorKey = `${editor.document.uri.toString()}-${editor.document.version}`;
-        this.pendingUpdates.add(editorKey);
-
-        if (this.updateInProgress) {
+    private static async runUpdate(editor: vscode.TextEditor, token: vscode.CancellationToken): Promise<void> {
+        if (!UpdateMode.canDecorate(editor.document)) {
+            this.clearEditor(editor);
             return;
         }
 
-        setTimeout(async () => {
-            await this.processPendingUpdates(editor);
-        }, this.COORDINATION_DELAY);
+        // Process both decorators concurrently for better performance
+        await Promise.all([
+            BracketLynx.updateDecoration(editor, token),
+            FrameworksDecorator.updateDecorations(editor)
+        ]);
     }
 
     /**
-     * Atomically processes all pending updates
+     * Coordinated cleanup of one editor's decorations, dropping its pending update
      */
-    private static async processPendingUpdates(editor: vscode.TextEditor): Promise<void> {
-        if (this.updateInProgress) {
-            return;
-        }
+    public static clearEditor(editor: vscode.TextEditor): void {
+        this.queue.cancel(editor);
 
-        this.updateInProgress = true;
-
-        try {
-            this.pendingUpdates.clear();
-
-            // Process both decorators concurrently for better performance
-            await Promise.all([
-                Promise.resolve(BracketLynx.delayUpdateDecoration(editor)),
-                FrameworksDecorator.updateDecorations(editor)
-            ]);
-
-        } catch (error) {
-            console.error('DecorationCoordinator: Error in processPendingUpdates:', error);
-        } finally {
-            this.updateInProgress = false;
-        }
+        BracketLynx.clearDecorations(editor);
+        FrameworksDecorator.clearDecorations(editor);
     }
 
     /**
      * Coordinated cleanup of all decorations
      */
     public static clearAll(): void {
-        this.pendingUpdates.clear();
-        this.updateInProgress = false;
+        this.queue.cancelAll();
 
         BracketLynx.clearAllDecorations();
         FrameworksDecorator.clearAllDecorations();
@@ -76,8 +66,7 @@ class DecorationCoordinator {
      * Coordinated configuration update
      */
     public static onConfigurationChange(): void {
-        this.pendingUpdates.clear();
-        this.updateInProgress = false;
+        this.queue.cancelAll();
 
         BracketLynx.onDidChangeConfiguration();
         FrameworksDecorator.onDidChangeConfiguration();
@@ -105,6 +94,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
 
         // Set up providers - unified approach
         setBracketLynxProvider(BracketLynx);
+        BracketLynx.setUpdateScheduler((editor) => DecorationCoordinator.coordinatedUpdate(editor));
         setBracketLynxProviderForColors(BracketLynx);
 
         // Set up unified framework decorator
@@ -115,6 +105,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
 
         registerCommands(context);
         registerEventListeners(context);
+        registerProviders(context);
 
         // Initialize decorations
         await initializeDecorations();
@@ -138,7 +129,7 @@ async function initializeDecorations(): Promise<void> {
 
     for (const editor of visibleEditors) {
         try {
-            await DecorationCoordinator.coordinatedUpdate(editor);
+            DecorationCoordinator.coordinatedUpdate(editor);
         } catch (error) {
             console.error(`Error initializing decorations for ${editor.document.fileName}:`, error);
         }
@@ -152,6 +143,19 @@ function registerCommands(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.commands.registerCommand('bracketLynx.menu', showBracketLynxMenu),
 
+        vscode.commands.registerCommand('bracketLynx.decorateCurrentFile', () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                return;
+            }
+            // Parse the file as it is now, whatever the update mode
+            UpdateMode.requestDecoration(editor.document);
+            CacheManager.invalidateDocument(editor.document);
+            editorsShowing(editor.document).forEach(i => DecorationCoordinator.coordinatedUpdate(i));
+        }),
+
+        vscode.commands.registerCommand('bracketLynx.forceDecorateFile', forceDecorateCurrentFile),
+
         vscode.commands.registerCommand('bracketLynx.restoreColor', async () => {
             const { restoreColorFromGlobal } = await import('./actions/colors.js');
             await restoreColorFromGlobal();
@@ -230,13 +234,33 @@ function registerEventListeners(context: vscode.ExtensionContext) {
         vscode.workspace.onDidOpenTextDocument(handleDidOpenTextDocument),
         vscode.workspace.onDidSaveTextDocument(handleDidSaveTextDocument),
         vscode.workspace.onDidCloseTextDocument(handleDidCloseTextDocument),
-        vscode.window.onDidChangeActiveTextEditor(handleActiveTextEditorChange)
+        vscode.extensions.onDidChange(handleExtensionsChange),
+        vscode.window.onDidChangeActiveTextEditor(handleActiveTextEditorChange),
+        vscode.window.onDidChangeTextEditorSelection(handleSelectionChange),
+        vscode.window.onDidChangeTextEditorVisibleRanges(handleVisibleRangesChange)
+    );
+}
+
+// ============================================================================
+// PROVIDER REGISTRATION
+// ============================================================================
+function registerProviders(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider('*', new UnmatchedBracketCodeActionProvider(), {
+            providedCodeActionKinds: UnmatchedBracketCodeActionProvider.providedCodeActionKinds
+        }),
+        RenderModeProviders.register(),
+        BracketLynxStatusBar.register()
     );
 }
 
 // ============================================================================
 // EVENT HANDLERS - COORDINATED TO AVOID CONFLICTS
 // ============================================================================
+function editorsShowing(document: vscode.TextDocument): readonly vscode.TextEditor[] {
+    return vscode.window.visibleTextEditors.filter(editor => editor.document === document);
+}
+
 async function handleConfigurationChange(event: vscode.ConfigurationChangeEvent) {
     if (event.affectsConfiguration('bracketLynx')) {
         try {
@@ -249,11 +273,32 @@ async function handleConfigurationChange(event: vscode.ConfigurationChangeEvent)
     }
 }
 
+function handleExtensionsChange() {
+    // Installed or removed extensions can add or drop derived language grammars
+    LanguageRegistry.getInstance().refresh();
+    DecorationCoordinator.onConfigurationChange();
+}
+
 function handleWorkspaceFoldersChange() {
     DecorationCoordinator.onConfigurationChange();
 }
 
 function handleTextDocumentChange(event: vscode.TextDocumentChangeEvent) {
+    // Every edit must reach the incremental parsers, including the minor ones skipped below
+    ParseWorkerClient.getInstance().recordChanges(event.document, event.contentChanges);
+
+    // Outside auto mode an edit only invalidates the parse; the mode decides when decorations come back
+    if (!UpdateMode.refreshesOnEdit) {
+        BracketLynx.onDidChangeTextDocument(event.document, event.contentChanges);
+        const hidesDecorations = UpdateMode.onDidEdit(event.document, () =>
+            editorsShowing(event.document).forEach(editor => DecorationCoordinator.coordinatedUpdate(editor))
+        );
+        if (hidesDecorations) {
+            editorsShowing(event.document).forEach(editor => DecorationCoordinator.clearEditor(editor));
+        }
+        return;
+    }
+
     // Check for comment-related changes for immediate response
     const hasCommentChanges = event.contentChanges.some(change => {
         const text = change.text;
@@ -283,8 +328,8 @@ function handleTextDocumentChange(event: vscode.TextDocumentChangeEvent) {
     BracketLynx.onDidChangeTextDocument(event.document, event.contentChanges);
     onDidChangeTextDocumentFrameworks(event.document, event.contentChanges);
     
-    const editor = vscode.window.visibleTextEditors.find(e => e.document === event.document);
-    if (editor) {
+    // Split editors and diff panes each show the document, so update all of them
+    for (const editor of editorsShowing(event.document)) {
         if (hasCommentChanges) {
             // Immediate update for comment changes
             setTimeout(() => {
@@ -297,19 +342,11 @@ function handleTextDocumentChange(event: vscode.TextDocumentChangeEvent) {
 }
 
 function handleDidOpenTextDocument(document: vscode.TextDocument) {
-    BracketLynx.onDidOpenTextDocument(document);
-    const editor = vscode.window.visibleTextEditors.find(e => e.document === document);
-    if (editor) {
-        DecorationCoordinator.coordinatedUpdate(editor);
-    }
+    editorsShowing(document).forEach(editor => DecorationCoordinator.coordinatedUpdate(editor));
 }
 
 async function handleDidSaveTextDocument(document: vscode.TextDocument) {
-    BracketLynx.onDidSaveTextDocument(document);
-    const editor = vscode.window.visibleTextEditors.find(e => e.document === document);
-    if (editor) {
-        DecorationCoordinator.coordinatedUpdate(editor);
-    }
+    editorsShowing(document).forEach(editor => DecorationCoordinator.coordinatedUpdate(editor));
 
     // Force color sync if settings were changed
     if (document.fileName.includes('.vscode/settings.json') || document.fileName.includes('settings.json')) {
@@ -320,11 +357,14 @@ async function handleDidSaveTextDocument(document: vscode.TextDocument) {
 
 async function handleDidCloseTextDocument(document: vscode.TextDocument) {
     BracketLynx.onDidChangeTextDocument(document);
+    BracketDiagnostics.clear(document);
+    UpdateMode.forget(document);
     await cleanupClosedEditor(document);
 }
 
 function handleActiveTextEditorChange(editor?: vscode.TextEditor) {
     BracketLynx.onDidChangeActiveTextEditor();
+    BracketLynxStatusBar.refresh();
     if (editor) {
         setTimeout(() => {
             DecorationCoordinator.coordinatedUpdate(editor);
@@ -332,6 +372,14 @@ function handleActiveTextEditorChange(editor?: vscode.TextEditor) {
     }
 }
 
+function handleSelectionChange(event: vscode.TextEditorSelectionChangeEvent) {
+    BracketLynx.onDidChangeTextEditorSelection(event.textEditor);
+}
+
+function handleVisibleRangesChange(event: vscode.TextEditorVisibleRangesChangeEvent) {
+    BracketLynx.onDidChangeTextEditorVisibleRanges(event.textEditor);
+}
+
 // ============================================================================
 // EXTENSION DEACTIVATION
 // ============================================================================
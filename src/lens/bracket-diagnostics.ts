@@ -0,0 +1,308 @@
+import * as vscode from 'vscode';
+import { OptimizedBracketParser } from '../core/performance-parser';
+import { BracketEntry, BracketLynxConfig } from './lens';
+import { EmbeddedRegionParser } from './embedded-parser';
+
+// ============================================================================
+// 🩺 BRACKET DIAGNOSTICS - Unmatched brackets in the Problems panel
+// ============================================================================
+
+const DIAGNOSTIC_SOURCE = 'Bracket Lynx';
+
+export enum UnmatchedBracketCode {
+  Unclosed = 'unclosed-bracket',
+  Mismatched = 'mismatched-bracket',
+  Unopened = 'unopened-bracket',
+}
+
+// Longest opening context quoted in a message, e.g. (`function render`)
+const MAX_LABEL_LENGTH = 40;
+
+export class BracketDiagnostics {
+  private static collection?: vscode.DiagnosticCollection;
+
+  /**
+   * Publish the unmatched brackets of a freshly parsed document
+   */
+  static update(document: vscode.TextDocument, brackets: BracketEntry[]): void {
+    if (!BracketLynxConfig.reportUnmatchedBrackets) {
+      this.clear(document);
+      return;
+    }
+
+    try {
+      this.collection ??= vscode.languages.createDiagnosticCollection('bracketLynx');
+      this.collection.set(document.uri, this.getDiagnostics(document, brackets));
+    } catch (error) {
+      console.error('Error publishing bracket diagnostics:', error);
+    }
+  }
+
+  static getDiagnostics(document: vscode.TextDocument, brackets: BracketEntry[]): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    const visit = (regionDocument: vscode.TextDocument, entries: BracketEntry[]) =>
+      entries.forEach((entry) => {
+        if (entry.isUnmatchBrackets) {
+          const diagnostic = this.createDiagnostic(regionDocument, entry);
+          if (diagnostic) {
+            diagnostics.push(diagnostic);
+          }
+        }
+        visit(regionDocument, entry.items);
+      });
+
+    // Each script or style block of a component is parsed in its own language
+    const resolveDocument = EmbeddedRegionParser.getDocumentResolver(document);
+    brackets.forEach((entry) => {
+      const regionDocument = resolveDocument(entry);
+      if (this.skipsStrings(regionDocument)) {
+        visit(regionDocument, [entry]);
+      }
+    });
+    return diagnostics;
+  }
+
+  static clear(document: vscode.TextDocument): void {
+    this.collection?.delete(document.uri);
+  }
+
+  static clearAll(): void {
+    this.collection?.clear();
+  }
+
+  static dispose(): void {
+    this.collection?.dispose();
+    this.collection = undefined;
+  }
+
+  /**
+   * The closing token that belongs to an opening one (or to an inter such as `else`
+   * that starts the next part of a scope), in the opening's letter case
+   */
+  static getExpectedClosing(languageId: string, opening: string): string | undefined {
+    const configuration = BracketLynxConfig.getLanguageSpecificConfig(languageId);
+    const regulate = (text: string) =>
+      configuration.ignoreCase ? text.toLowerCase() : text;
+    const pair = [...(configuration.brackets?.symbol ?? []), ...(configuration.brackets?.word ?? [])].find(
+      (i) => [i.opening, ...(i.inters ?? [])].some((token) => regulate(token) === regulate(opening))
+    );
+    if (!pair) {
+      return undefined;
+    }
+    return configuration.ignoreCase && opening === opening.toLowerCase()
+      ? pair.closing.toLowerCase()
+      : pair.closing;
+  }
+
+  // ============================================================================
+  // 🔧 DIAGNOSTIC HELPERS
+  // ============================================================================
+
+  /**
+   * Whether the document is parsed with its strings left out. Otherwise a bracket
+   * such as `"("` would be reported, e.g. in HTML, which the default grammar parses.
+   */
+  private static skipsStrings(document: vscode.TextDocument): boolean {
+    return (
+      !OptimizedBracketParser.getInstance().shouldUseOriginalParser(document) ||
+      BracketLynxConfig.getLanguageSpecificConfig(document.languageId).strings !== undefined
+    );
+  }
+
+  private static createDiagnostic(
+    document: vscode.TextDocument,
+    entry: BracketEntry
+  ): vscode.Diagnostic | undefined {
+    const opening = entry.start;
+    const openingRange = new vscode.Range(
+      opening.position,
+      new vscode.Position(opening.position.line, opening.position.character + opening.token.length)
+    );
+    const expectedClosing = this.getExpectedClosing(document.languageId, opening.token);
+
+    // An extra closing bracket is written as a scope that starts and ends with itself
+    if (!expectedClosing) {
+      return this.build(
+        openingRange,
+        `\`${opening.token}\` has no matching opening bracket`,
+        UnmatchedBracketCode.Unopened
+      );
+    }
+
+    const where = this.describeOpening(document, entry);
+    const relatedInformation = new vscode.DiagnosticRelatedInformation(
+      new vscode.Location(document.uri, openingRange),
+      `\`${opening.token}\` opened here`
+    );
+
+    if (entry.end.token === '') {
+      return this.build(
+        openingRange,
+        `${where} is never closed`,
+        UnmatchedBracketCode.Unclosed,
+        relatedInformation
+      );
+    }
+
+    const closingRange = new vscode.Range(
+      new vscode.Position(entry.end.position.line, entry.end.position.character - entry.end.token.length),
+      entry.end.position
+    );
+    return this.build(
+      closingRange,
+      `${where} is closed by \`${entry.end.token}\` instead of \`${expectedClosing}\``,
+      UnmatchedBracketCode.Mismatched,
+      relatedInformation
+    );
+  }
+
+  private static build(
+    range: vscode.Range,
+    message: string,
+    code: UnmatchedBracketCode,
+    relatedInformation?: vscode.DiagnosticRelatedInformation
+  ): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Warning);
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    diagnostic.code = code;
+    if (relatedInformation) {
+      diagnostic.relatedInformation = [relatedInformation];
+    }
+    return diagnostic;
+  }
+
+  /**
+   * e.g. "`{` opened at line 12 (`function render`)"
+   */
+  private static describeOpening(document: vscode.TextDocument, entry: BracketEntry): string {
+    const { position, token } = entry.start;
+    const where = `\`${token}\` opened at line ${position.line + 1}`;
+    const label = this.getOpeningLabel(document.lineAt(position.line).text.slice(0, position.character));
+    return label ? `${where} (\`${label}\`)` : where;
+  }
+
+  /**
+   * The code in front of an opening bracket, without parameter lists or a trailing `=`
+   */
+  private static getOpeningLabel(textBefore: string): string {
+    let label = textBefore.replace(/\s+/g, ' ').trim();
+    let previous: string;
+    do {
+      previous = label;
+      label = label.replace(/\s*(?:\([^()]*\)|=>|=|:|,)$/, '').trim();
+    } while (label !== previous);
+
+    return label.length > MAX_LABEL_LENGTH ? label.slice(0, MAX_LABEL_LENGTH).trimEnd() + '…' : label;
+  }
+}
+
+// ============================================================================
+// 🔧 QUICK FIXES
+// ============================================================================
+
+export class UnmatchedBracketCodeActionProvider implements vscode.CodeActionProvider {
+  // A getter, so loading this module in the parse worker needs no code action API
+  static get providedCodeActionKinds(): vscode.CodeActionKind[] {
+    return [vscode.CodeActionKind.QuickFix];
+  }
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    return context.diagnostics
+      .filter((diagnostic) => diagnostic.source === DIAGNOSTIC_SOURCE)
+      .map((diagnostic) => this.createFix(document, diagnostic))
+      .filter((action): action is vscode.CodeAction => action !== undefined);
+  }
+
+  private createFix(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction | undefined {
+    const openingRange = diagnostic.relatedInformation?.[0]?.location.range;
+    if (!openingRange) {
+      return undefined;
+    }
+    const opening = document.getText(openingRange);
+    const closing = BracketDiagnostics.getExpectedClosing(document.languageId, opening);
+    if (!closing) {
+      return undefined;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    let title: string;
+    if (diagnostic.code === UnmatchedBracketCode.Unclosed) {
+      const insertion = getClosingInsertion(document, openingRange.start, opening, closing);
+      edit.insert(document.uri, insertion.position, insertion.text);
+      title = `Insert missing \`${closing}\``;
+    } else if (diagnostic.code === UnmatchedBracketCode.Mismatched) {
+      edit.replace(document.uri, diagnostic.range, closing);
+      title = `Replace \`${document.getText(diagnostic.range)}\` with \`${closing}\``;
+    } else {
+      return undefined;
+    }
+
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.edit = edit;
+    action.diagnostics = [diagnostic];
+    action.isPreferred = true;
+    return action;
+  }
+}
+
+/**
+ * Where a missing closing bracket most likely belongs: after the last line indented
+ * deeper than the opening line, at the opening line's indentation. A scope with no
+ * indented body is closed at the end of its own line.
+ */
+export function getClosingInsertion(
+  document: vscode.TextDocument,
+  openingPosition: vscode.Position,
+  opening: string,
+  closing: string
+): { position: vscode.Position; text: string } {
+  const openingLine = document.lineAt(openingPosition.line).text;
+  const indentation = /^\s*/.exec(openingLine)![0];
+  const indentOf = (text: string) => /^\s*/.exec(text)![0].replace(/\t/g, '    ').length;
+  const openingIndent = indentOf(openingLine);
+  const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+
+  // `\begin{itemize}` is closed by `\end{itemize}`
+  const environment = /^\s*\{[^{}]*\}/.exec(openingLine.slice(openingPosition.character + opening.length));
+  const closingText = closing.startsWith('\\') && environment ? closing + environment[0].trim() : closing;
+
+  let lastBodyLine: number | undefined;
+  for (let line = openingPosition.line + 1; line < document.lineCount; line++) {
+    const text = document.lineAt(line).text;
+    if (text.trim().length === 0) {
+      continue;
+    }
+    if (indentOf(text) <= openingIndent) {
+      break;
+    }
+    lastBodyLine = line;
+  }
+
+  if (lastBodyLine !== undefined) {
+    return {
+      position: new vscode.Position(lastBodyLine, document.lineAt(lastBodyLine).text.length),
+      text: eol + indentation + closingText,
+    };
+  }
+
+  const code = openingLine.trimEnd();
+  const restOfLine = code.slice(openingPosition.character + opening.length).trim();
+  if (restOfLine.length === 0) {
+    return {
+      position: new vscode.Position(openingPosition.line, code.length),
+      text: eol + indentation + closingText,
+    };
+  }
+
+  // Keep a statement's trailing `;` or `,` after the inserted bracket
+  const end = /[;,]$/.test(code) ? code.length - 1 : code.length;
+  const separator = /\w/.test(closingText[0]) ? ' ' : '';
+  return {
+    position: new vscode.Position(openingPosition.line, end),
+    text: separator + closingText,
+  };
+}
@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+
+// ============================================================================
+// 🚦 DECORATION QUEUE - One waiting and at most one running update per editor
+// ============================================================================
+
+export type DecorationUpdate = (editor: vscode.TextEditor, token: vscode.CancellationToken) => Promise<void>;
+
+interface ScheduledUpdate {
+  readonly editor: vscode.TextEditor;
+  readonly version: number;
+  readonly tokenSource: vscode.CancellationTokenSource;
+}
+
+export class DecorationQueue {
+  static readonly COORDINATION_DELAY = 8; // Reduced delay for faster response (~120fps)
+
+  private queuedUpdates = new Map<vscode.TextEditor, ScheduledUpdate>();
+  private runningUpdates = new Map<vscode.TextEditor, ScheduledUpdate>();
+  private isProcessing = false;
+  private processTimer?: NodeJS.Timeout;
+
+  constructor(private readonly update: DecorationUpdate) {}
+
+  /**
+   * Queue an update for the editor. A newer document version cancels the update
+   * still working on an older one, and a request is only merged with one already
+   * waiting for the same version.
+   */
+  enqueue(editor: vscode.TextEditor): void {
+    const version = editor.document.version;
+    const queued = this.queuedUpdates.get(editor);
+    if (queued && queued.version === version) {
+      return;
+    }
+    this.cancelUpdate(queued);
+
+    const running = this.runningUpdates.get(editor);
+    if (running && running.version !== version) {
+      running.tokenSource.cancel();
+    }
+
+    this.queuedUpdates.set(editor, {
+      editor,
+      version,
+      tokenSource: new vscode.CancellationTokenSource(),
+    });
+    this.scheduleProcessing();
+  }
+
+  /**
+   * Drop the editor's waiting update and cancel its running one
+   */
+  cancel(editor: vscode.TextEditor): void {
+    this.cancelUpdate(this.queuedUpdates.get(editor));
+    this.queuedUpdates.delete(editor);
+    this.runningUpdates.get(editor)?.tokenSource.cancel();
+  }
+
+  cancelAll(): void {
+    this.queuedUpdates.forEach((update) => this.cancelUpdate(update));
+    this.queuedUpdates.clear();
+    this.runningUpdates.forEach((update) => update.tokenSource.cancel());
+  }
+
+  private scheduleProcessing(): void {
+    if (this.isProcessing || this.processTimer) {
+      return;
+    }
+
+    this.processTimer = setTimeout(() => {
+      this.processTimer = undefined;
+      this.processPendingUpdates();
+    }, DecorationQueue.COORDINATION_DELAY);
+  }
+
+  /**
+   * Drains the queue one editor at a time until nothing is left waiting
+   */
+  private async processPendingUpdates(): Promise<void> {
+    this.isProcessing = true;
+
+    try {
+      let update = this.takeNextUpdate();
+      while (update) {
+        await this.runUpdate(update);
+        update = this.takeNextUpdate();
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Active editor first, then other visible editors, then background ones
+   */
+  private takeNextUpdate(): ScheduledUpdate | undefined {
+    const visibleEditors = vscode.window.visibleTextEditors;
+    const priority = (update: ScheduledUpdate) =>
+      update.editor === vscode.window.activeTextEditor ? 0 : visibleEditors.includes(update.editor) ? 1 : 2;
+
+    let next: ScheduledUpdate | undefined;
+    for (const update of this.queuedUpdates.values()) {
+      if (!next || priority(update) < priority(next)) {
+        next = update;
+      }
+    }
+
+    if (next) {
+      this.queuedUpdates.delete(next.editor);
+    }
+    return next;
+  }
+
+  private async runUpdate(update: ScheduledUpdate): Promise<void> {
+    const { editor, tokenSource } = update;
+    if (tokenSource.token.isCancellationRequested || editor.document.isClosed) {
+      tokenSource.dispose();
+      return;
+    }
+
+    this.runningUpdates.set(editor, update);
+    try {
+      await this.update(editor, tokenSource.token);
+    } catch (error) {
+      console.error('DecorationQueue: Error in processPendingUpdates:', error);
+    } finally {
+      if (this.runningUpdates.get(editor) === update) {
+        this.runningUpdates.delete(editor);
+      }
+      tokenSource.dispose();
+    }
+  }
+
+  private cancelUpdate(update?: ScheduledUpdate): void {
+    update?.tokenSource.cancel();
+    update?.tokenSource.dispose();
+  }
+}
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
-import { BracketLynxConfig } from '../lens';
-import { getCurrentColor } from '../../actions/colors';
+import { BracketDecorationGenerator, BracketLynxConfig } from '../lens';
+import { RenderOptionsBuilder } from '../render-options';
+import { UpdateMode } from '../update-mode';
+import { getScopeColorResolver } from '../../actions/colors';
 import { isEditorEnabled, isExtensionEnabled } from '../../actions/toggle';
 
 // FRAMEWORK CONFIGURATIONS - Centralized to eliminate duplication
@@ -43,6 +45,8 @@ interface ComponentRange {
   readonly componentType?: 'framework' | 'html' | 'custom';
   readonly lineSpan?: number;
   readonly isScoped?: boolean;
+  // 1 for a top-level component
+  readonly depth?: number;
 }
 
 interface ComponentStackEntry {
@@ -61,7 +65,8 @@ interface PendingDecoration {
 // ============================================================================
 class FrameworksDecorator {
   private static isInitialLoad = true;
-  private static decorationTypes = new Map<FrameworkName, vscode.TextEditorDecorationType>();
+  // Pooled per framework and color, shared by every editor of that framework
+  private static decorationTypes = new Map<FrameworkName, Map<string, vscode.TextEditorDecorationType>>();
   private static decorationTypeOptions = new Map<FrameworkName, { color: string; fontStyle: string }>();
   private static pendingDecorations: PendingDecoration[] = [];
   private static isProcessing = false;
@@ -118,7 +123,8 @@ class FrameworksDecorator {
     changes?: readonly vscode.TextDocumentContentChangeEvent[]
   ): Promise<void> {
     const framework = this.detectFramework(document);
-    if (!framework) {
+    // Outside auto mode, edits never redraw on their own
+    if (!framework || !UpdateMode.refreshesOnEdit) {
       return;
     }
 
@@ -202,7 +208,7 @@ class FrameworksDecorator {
    * Process decorations for a specific editor and framework
    */
   private static async processEditorDecorations(editor: vscode.TextEditor, framework: FrameworkName): Promise<void> {
-    if (!this.shouldProcessFile(editor.document, framework)) {
+    if (!this.shouldProcessFile(editor.document, framework) || !UpdateMode.canDecorate(editor.document)) {
       this.clearDecorations(editor, framework);
       return;
     }
@@ -221,10 +227,16 @@ class FrameworksDecorator {
     }
 
     try {
-      const decorationType = this.ensureDecorationType(framework);
-      const decorations = this.generateDecorations(editor.document, framework);
-      editor.setDecorations(decorationType, decorations);
-
+      const decorationsByColor = this.generateDecorations(editor.document, framework);
+      decorationsByColor.forEach((decorations, color) =>
+        editor.setDecorations(this.ensureDecorationType(framework, color), decorations)
+      );
+      // Colors this editor no longer uses
+      this.decorationTypes.get(framework)?.forEach((decorationType, color) => {
+        if (!decorationsByColor.has(color)) {
+          editor.setDecorations(decorationType, []);
+        }
+      });
 
     } catch (error) {
       console.error(`FrameworksDecorator: Error updating ${framework} decorations:`, error);
@@ -233,32 +245,42 @@ class FrameworksDecorator {
   }
 
   /**
-   * Ensure decoration type exists for framework
+   * Ensure decoration type exists for framework and color
    */
-  private static ensureDecorationType(framework: FrameworkName): vscode.TextEditorDecorationType {
-    // Create once per framework and keep it stable.
-    // Color and fontStyle are applied via per-decoration renderOptions in generateDecorations().
-    const existing = this.decorationTypes.get(framework);
+  private static ensureDecorationType(framework: FrameworkName, color: string): vscode.TextEditorDecorationType {
+    // Create once per framework and color and keep it stable.
+    // Font and box styles are applied via per-decoration renderOptions in generateDecorations().
+    let pool = this.decorationTypes.get(framework);
+    if (!pool) {
+      pool = new Map();
+      this.decorationTypes.set(framework, pool);
+    }
+    const existing = pool.get(color);
     if (existing) {
       return existing;
     }
 
     const decorationType = vscode.window.createTextEditorDecorationType({
-      // Keep behavior stable; do not specify color/fontStyle here to avoid re-creation on theme changes
-      rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+      after: { color }
     });
 
-    this.decorationTypes.set(framework, decorationType);
+    pool.set(color, decorationType);
     // Track last options for potential future use, but no longer used to recreate types
-    this.decorationTypeOptions.set(framework, { color: getCurrentColor(), fontStyle: BracketLynxConfig.fontStyle });
+    this.decorationTypeOptions.set(framework, { color, fontStyle: BracketLynxConfig.fontStyle });
     return decorationType;
   }
 
   /**
    * Generate decorations for a document
    */
-  private static generateDecorations(document: vscode.TextDocument, framework: FrameworkName): vscode.DecorationOptions[] {
-    const decorations: vscode.DecorationOptions[] = [];
+  private static generateDecorations(
+    document: vscode.TextDocument,
+    framework: FrameworkName
+  ): Map<string, vscode.DecorationOptions[]> {
+    const decorations: { color: string; options: vscode.DecorationOptions }[] = [];
+    const colorOf = getScopeColorResolver();
+    const renderSettings = RenderOptionsBuilder.getSettings();
     const text = document.getText();
     const lines = text.split('\n');
     const componentRanges = this.findComponentRanges(lines, framework);
@@ -270,32 +292,39 @@ class FrameworksDecorator {
           continue; // Skip commented components
         }
 
-        const prefix = BracketLynxConfig.prefix.replace('‹~', '‹~').trim();
         const scopedIndicator = component.isScoped ? ' [scoped]' : '';
-        const decorationText = `${prefix} #${component.startLine}-${component.endLine} •${component.name}${scopedIndicator}`;
+        const decorationText = BracketDecorationGenerator.formatDecorationText({
+          prefix: BracketLynxConfig.prefix,
+          start: component.startLine,
+          end: component.endLine,
+          depth: component.depth ?? 1,
+          header: `${component.name}${scopedIndicator}`,
+          kind: component.componentType ?? '',
+          symbol: component.name,
+          children: componentRanges.filter(
+            (child) =>
+              child.depth === (component.depth ?? 1) + 1 &&
+              component.startLine < child.startLine &&
+              child.endLine <= component.endLine
+          ).length,
+        });
 
         const decoration: vscode.DecorationOptions = {
           range: component.range,
           renderOptions: {
-            after: {
-              contentText: decorationText,
-              color: getCurrentColor(),
-              fontStyle: BracketLynxConfig.fontStyle
-            }
+            after: RenderOptionsBuilder.build(decorationText, renderSettings)
           }
         };
 
-        decorations.push(decoration);
+        decorations.push({ color: colorOf({ depth: component.depth }), options: decoration });
       }
     }
 
-    const maxDecorations = BracketLynxConfig.maxDecorationsPerFile;
-    if (decorations.length > maxDecorations) {
-
-      return decorations.slice(0, maxDecorations);
-    }
-
-    return decorations;
+    const decorationsByColor = new Map<string, vscode.DecorationOptions[]>();
+    decorations.slice(0, BracketLynxConfig.maxDecorationsPerFile).forEach(({ color, options }) => {
+      decorationsByColor.set(color, [...(decorationsByColor.get(color) ?? []), options]);
+    });
+    return decorationsByColor;
   }
 
   /**
@@ -416,7 +445,8 @@ class FrameworksDecorator {
                 hasContent: true,
                 componentType,
                 lineSpan,
-                isScoped
+                isScoped,
+                depth: j + 1
               });
             }
             break;
@@ -652,7 +682,7 @@ class FrameworksDecorator {
    * Check if file should be processed
    */
   private static shouldProcessFile(document: vscode.TextDocument, framework: FrameworkName): boolean {
-    if (!BracketLynxConfig.enablePerformanceFilters) {
+    if (!BracketLynxConfig.enablePerformanceFilters || BracketLynxConfig.isForceDecorated(document)) {
       return true;
     }
 
@@ -688,16 +718,19 @@ class FrameworksDecorator {
    */
   public static clearDecorations(editor: vscode.TextEditor, framework?: FrameworkName): void {
     if (framework) {
-      const decorationType = this.decorationTypes.get(framework);
-      if (decorationType && editor) {
-        editor.setDecorations(decorationType, []);
-      }
-    } else {
-      // Clear all frameworks
-      for (const decorationType of this.decorationTypes.values()) {
-        if (decorationType && editor) {
+      this.decorationTypes.get(framework)?.forEach((decorationType) => {
+        if (editor) {
           editor.setDecorations(decorationType, []);
         }
+      });
+    } else {
+      // Clear all frameworks
+      for (const pool of this.decorationTypes.values()) {
+        pool.forEach((decorationType) => {
+          if (editor) {
+            editor.setDecorations(decorationType, []);
+          }
+        });
       }
     }
   }
@@ -706,8 +739,8 @@ class FrameworksDecorator {
    * Clear all decorations from all editors
    */
   public static clearAllDecorations(): void {
-    for (const [framework, decorationType] of this.decorationTypes.entries()) {
-      if (decorationType) {
+    for (const [framework, pool] of this.decorationTypes.entries()) {
+      if (pool.size > 0) {
         const config = FRAMEWORK_CONFIGS[framework];
         vscode.window.visibleTextEditors
           .filter(editor => {
@@ -723,10 +756,8 @@ class FrameworksDecorator {
    * Handle configuration changes
    */
   public static onDidChangeConfiguration(): void {
-    for (const [framework, decorationType] of this.decorationTypes.entries()) {
-      if (decorationType) {
-        decorationType.dispose();
-      }
+    for (const pool of this.decorationTypes.values()) {
+      pool.forEach((decorationType) => decorationType.dispose());
     }
     this.decorationTypes.clear();
   }
@@ -735,10 +766,6 @@ class FrameworksDecorator {
    * Force color refresh for all decorations
    */
   public static async forceColorRefresh(): Promise<void> {
-    for (const framework of Object.keys(FRAMEWORK_CONFIGS) as FrameworkName[]) {
-      this.ensureDecorationType(framework);
-    }
-
     for (const editor of vscode.window.visibleTextEditors) {
       const framework = this.detectFramework(editor.document);
       if (framework) {
@@ -752,8 +779,8 @@ class FrameworksDecorator {
    * Dispose all resources
    */
   public static dispose(): void {
-    for (const decorationType of this.decorationTypes.values()) {
-      decorationType.dispose();
+    for (const pool of this.decorationTypes.values()) {
+      pool.forEach((decorationType) => decorationType.dispose());
     }
     this.decorationTypes.clear();
     this.pendingDecorations = [];
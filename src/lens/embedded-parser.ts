@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import type { BracketEntry } from './lens';
+
+// ============================================================================
+// EMBEDDED REGIONS - Script and style blocks of single-file components
+// ============================================================================
+
+export interface EmbeddedRegion {
+  languageId: string;
+  // Offsets of the region's content, without the surrounding tags
+  start: number;
+  end: number;
+}
+
+// Frameworks whose files are split into regions; their templates are left to the frameworks decorator
+const EMBEDDING_LANGUAGES = new Set(['vue', 'svelte', 'astro']);
+
+const SCRIPT_LANGUAGES: Record<string, string> = {
+  ts: 'typescript',
+  typescript: 'typescript',
+  tsx: 'typescriptreact',
+  js: 'javascript',
+  javascript: 'javascript',
+  jsx: 'javascriptreact',
+};
+
+// `sass` and `stylus` are indentation-based and have no bracket scopes to show
+const STYLE_LANGUAGES: Record<string, string> = {
+  css: 'css',
+  postcss: 'css',
+  scss: 'scss',
+  // Less shares SCSS's comments and brackets
+  less: 'scss',
+};
+
+const BLOCK_TAG_PATTERN = /<(script|style)\b([^>]*)>/gi;
+const LANG_ATTRIBUTE_PATTERN = /\blang\s*=\s*["']?([\w-]+)/i;
+const TYPE_ATTRIBUTE_PATTERN = /\btype\s*=\s*["']?([\w/+-]+)/i;
+const SCRIPT_TYPES = new Set(['module', 'text/javascript', 'application/javascript', 'text/typescript']);
+const HTML_COMMENT_PATTERN = /<!--[\s\S]*?-->/g;
+const FRONTMATTER_PATTERN = /^\s*---[^\S\r\n]*\r?\n([\s\S]*?\r?\n)?---[^\S\r\n]*(?:\r?\n|$)/;
+
+export class EmbeddedRegionParser {
+  static isEmbeddingLanguage(languageId: string): boolean {
+    return EMBEDDING_LANGUAGES.has(languageId);
+  }
+
+  /**
+   * Parse each region with its own language's rules. Regions are parsed in a copy of
+   * the document with everything else blanked out, so positions need no translation.
+   */
+  static parseRegions(
+    document: vscode.TextDocument,
+    parseRegion: (regionDocument: vscode.TextDocument) => BracketEntry[]
+  ): BracketEntry[] {
+    return this.getRegions(document).flatMap((region) =>
+      parseRegion(this.createRegionDocument(document, region))
+    );
+  }
+
+  /**
+   * The document a top-level scope's headers should be read from
+   */
+  static getDocumentResolver(
+    document: vscode.TextDocument
+  ): (entry: BracketEntry) => vscode.TextDocument {
+    if (!this.isEmbeddingLanguage(document.languageId)) {
+      return () => document;
+    }
+
+    const regionDocuments = this.getRegions(document).map((region) => ({
+      region,
+      regionDocument: this.createRegionDocument(document, region),
+    }));
+    return (entry) => {
+      const offset = document.offsetAt(entry.start.position);
+      return (
+        regionDocuments.find(({ region }) => region.start <= offset && offset < region.end)
+          ?.regionDocument ?? document
+      );
+    };
+  }
+
+  static getRegions(document: vscode.TextDocument): EmbeddedRegion[] {
+    const text = document.getText();
+    const regions: EmbeddedRegion[] = [];
+
+    if (document.languageId === 'astro') {
+      const frontmatter = FRONTMATTER_PATTERN.exec(text);
+      if (frontmatter?.[1]) {
+        // The script starts on the line after the opening fence
+        const start = frontmatter[0].indexOf('\n') + 1;
+        regions.push({ languageId: 'typescript', start, end: start + frontmatter[1].length });
+      }
+    }
+
+    const comments = [...text.matchAll(HTML_COMMENT_PATTERN)].map((match) => ({
+      start: match.index!,
+      end: match.index! + match[0].length,
+    }));
+    const isInComment = (offset: number) =>
+      comments.some((comment) => comment.start <= offset && offset < comment.end);
+
+    BLOCK_TAG_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = BLOCK_TAG_PATTERN.exec(text))) {
+      const [openingTag, tagName, attributes] = match;
+      if (attributes.trimEnd().endsWith('/') || isInComment(match.index)) {
+        continue;
+      }
+
+      const start = match.index + openingTag.length;
+      const closingIndex = text.toLowerCase().indexOf(`</${tagName.toLowerCase()}`, start);
+      const end = closingIndex === -1 ? text.length : closingIndex;
+      BLOCK_TAG_PATTERN.lastIndex = end;
+
+      const languageId = this.getRegionLanguage(tagName.toLowerCase(), attributes);
+      if (languageId && regions.every((region) => region.end <= start)) {
+        regions.push({ languageId, start, end });
+      }
+    }
+
+    return regions;
+  }
+
+  private static getRegionLanguage(tagName: string, attributes: string): string | undefined {
+    const lang = LANG_ATTRIBUTE_PATTERN.exec(attributes)?.[1].toLowerCase();
+    if (tagName === 'script') {
+      // JSON and template scripts are data, not code
+      const type = TYPE_ATTRIBUTE_PATTERN.exec(attributes)?.[1].toLowerCase();
+      if (type && !SCRIPT_TYPES.has(type)) {
+        return undefined;
+      }
+      return lang ? SCRIPT_LANGUAGES[lang] : 'javascript';
+    }
+    return lang ? STYLE_LANGUAGES[lang] : 'css';
+  }
+
+  /**
+   * A view of the document in the region's language, with text outside the region
+   * replaced by spaces. Line breaks are kept, so offsets and positions still match.
+   */
+  private static createRegionDocument(
+    document: vscode.TextDocument,
+    region: EmbeddedRegion
+  ): vscode.TextDocument {
+    const text = document.getText();
+    const blank = (part: string) => part.replace(/[^\r\n]/g, ' ');
+    const regionText =
+      blank(text.slice(0, region.start)) +
+      text.slice(region.start, region.end) +
+      blank(text.slice(region.end));
+
+    return Object.create(document, {
+      languageId: { value: region.languageId },
+      getText: {
+        value: (range?: vscode.Range) =>
+          range
+            ? regionText.slice(document.offsetAt(range.start), document.offsetAt(range.end))
+            : regionText,
+      },
+    });
+  }
+}
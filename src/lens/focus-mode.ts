@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import { BracketLynxConfig, type BracketDecorationSource, type BracketEntry } from './lens';
+
+// ============================================================================
+// 🎯 FOCUS MODE - Only the scopes around the cursor
+// ============================================================================
+
+export type FocusModeSetting = 'off' | 'enclosing' | 'enclosingAndChildren';
+
+const comparePositions = (a: vscode.Position, b: vscode.Position) =>
+  a.line - b.line || a.character - b.character;
+
+const endKey = (position: vscode.Position) => `${position.line}:${position.character}`;
+
+export class FocusMode {
+  static get isEnabled(): boolean {
+    return BracketLynxConfig.focusMode !== 'off';
+  }
+
+  /**
+   * The chain of scopes containing each cursor, outermost first, with their
+   * direct children when `bracketLynx.focusMode` is "enclosingAndChildren"
+   */
+  static getFocusedEntries(
+    brackets: BracketEntry[],
+    selections: readonly vscode.Selection[]
+  ): BracketEntry[] {
+    const withChildren = BracketLynxConfig.focusMode === 'enclosingAndChildren';
+    const focused = new Set<BracketEntry>();
+    const visit = (entries: BracketEntry[], position: vscode.Position) =>
+      entries.forEach((entry) => {
+        if (
+          comparePositions(entry.start.position, position) <= 0 &&
+          comparePositions(position, entry.end.position) <= 0
+        ) {
+          focused.add(entry);
+          if (withChildren) {
+            entry.items.forEach((item) => focused.add(item));
+          }
+          visit(entry.items, position);
+        }
+      });
+    selections.forEach((selection) => visit(brackets, selection.active));
+    return [...focused];
+  }
+
+  /**
+   * Identifies what focus mode shows, so a cursor move within the same scopes redraws nothing
+   */
+  static getFocusKey(brackets: BracketEntry[], selections: readonly vscode.Selection[]): string {
+    return this.getFocusedEntries(brackets, selections)
+      .map((entry) => endKey(entry.end.position))
+      .join(',');
+  }
+
+  /**
+   * The decoration sources of the focused scopes. A source ends where its scope does.
+   */
+  static filterSources(
+    sources: BracketDecorationSource[],
+    brackets: BracketEntry[],
+    selections: readonly vscode.Selection[]
+  ): BracketDecorationSource[] {
+    const focusedEnds = new Set(
+      this.getFocusedEntries(brackets, selections).map((entry) => endKey(entry.end.position))
+    );
+    return sources.filter((source) => focusedEnds.has(endKey(source.range.end)));
+  }
+}
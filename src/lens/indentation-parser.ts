@@ -0,0 +1,241 @@
+import * as vscode from 'vscode';
+import type { BracketEntry, LanguageConfiguration } from './lens';
+import { makeRegExpPart } from '../core/performance-config';
+
+// ============================================================================
+// INDENTATION SCOPES - Blocks of offside-rule languages (Python, YAML, ...)
+// ============================================================================
+
+interface LogicalLine {
+  line: number;
+  indent: number;
+  // Last line of the statement, including continuation lines
+  lastLine: number;
+}
+
+// YAML `key: |` and `key: >-` start a block of literal text
+const BLOCK_SCALAR_PATTERN = /(?:^|[\s:-])[|>][-+0-9]*$/;
+
+export class IndentationScopeParser {
+  /**
+   * Build scopes from indentation and nest the bracket scopes found by the token
+   * parser inside them. A scope starts at the end of the line that introduces the
+   * block and ends at the end of the block's last line.
+   */
+  static parseScopes(
+    document: vscode.TextDocument,
+    languageConfiguration: LanguageConfiguration,
+    brackets: BracketEntry[]
+  ): BracketEntry[] {
+    const lines = document.getText().split('\n').map((line) => line.replace(/\r$/, ''));
+    const { continuation, contentEnds } = this.scanLines(lines, languageConfiguration, brackets);
+    const logicalLines = this.getLogicalLines(lines, continuation, contentEnds);
+
+    const result: BracketEntry[] = [];
+    const headerLines = new Set<number>();
+    const stack: { indent: number; entry: BracketEntry }[] = [];
+
+    const close = (lastLine: number) => {
+      const scope = stack.pop()!;
+      scope.entry.end = {
+        position: new vscode.Position(lastLine, lines[lastLine].length),
+        token: '',
+      };
+      (stack[stack.length - 1]?.entry.items ?? result).push(scope.entry);
+    };
+
+    logicalLines.forEach((logicalLine, index) => {
+      const previous = logicalLines[index - 1];
+      while (stack.length > 0 && stack[stack.length - 1].indent >= logicalLine.indent) {
+        close(previous.lastLine);
+      }
+
+      const next = logicalLines[index + 1];
+      const opensBlock = next !== undefined && next.indent > logicalLine.indent;
+      const isBlockScalar =
+        logicalLine.lastLine > logicalLine.line &&
+        BLOCK_SCALAR_PATTERN.test(lines[logicalLine.line].slice(0, contentEnds[logicalLine.line]));
+      if (!opensBlock && !isBlockScalar) {
+        return;
+      }
+
+      for (let line = logicalLine.line; line <= logicalLine.lastLine; line++) {
+        headerLines.add(line);
+      }
+
+      const contentEnd = contentEnds[logicalLine.line];
+      const endsWithColon = lines[logicalLine.line][contentEnd - 1] === ':';
+      stack.push({
+        indent: logicalLine.indent,
+        entry: {
+          start: {
+            position: new vscode.Position(logicalLine.line, endsWithColon ? contentEnd - 1 : contentEnd),
+            token: endsWithColon ? ':' : '',
+          },
+          end: { position: new vscode.Position(logicalLine.lastLine, 0), token: '' },
+          headerMode: 'before',
+          isUnmatchBrackets: false,
+          items: [],
+        },
+      });
+
+      if (!opensBlock) {
+        // A block scalar's text is one statement with its header, so the block ends with it
+        close(logicalLine.lastLine);
+      }
+    });
+
+    while (stack.length > 0) {
+      close(logicalLines[logicalLines.length - 1].lastLine);
+    }
+
+    // Brackets in a block's header (e.g. a wrapped parameter list) are covered by the block
+    brackets
+      .filter((bracket) => !headerLines.has(bracket.start.position.line))
+      .forEach((bracket) => this.insertBracket(result, bracket));
+
+    return result;
+  }
+
+  /**
+   * Mark lines that start inside a bracket, string or block comment, or follow a
+   * backslash, and find where each line's code ends before a trailing comment.
+   */
+  private static scanLines(
+    lines: string[],
+    languageConfiguration: LanguageConfiguration,
+    brackets: BracketEntry[]
+  ): { continuation: boolean[]; contentEnds: number[] } {
+    const continuation = lines.map(() => false);
+    const contentEnds = lines.map((line) => line.trimEnd().length);
+
+    // Nested brackets lie inside their parents, so the top level covers every wrapped line
+    for (const entry of brackets) {
+      if (!entry.isUnmatchBrackets) {
+        for (let line = entry.start.position.line + 1; line <= entry.end.position.line; line++) {
+          continuation[line] = true;
+        }
+      }
+    }
+
+    const lineComments = languageConfiguration.comments?.line ?? [];
+    const spans = [
+      ...(languageConfiguration.comments?.block ?? []).map((i) => ({ ...i, isMultiline: true })),
+      ...(languageConfiguration.strings?.multiline ?? []).map((i) => ({ ...i, isMultiline: true })),
+      ...(languageConfiguration.strings?.inline ?? []).map((i) => ({ ...i, isMultiline: false })),
+    ];
+    const escapes = [
+      ...(languageConfiguration.strings?.multiline ?? []),
+      ...(languageConfiguration.strings?.inline ?? []),
+    ].flatMap((i) => i.escape);
+
+    // Longest tokens first so `"""` wins over `"`
+    const tokens = [...lineComments, ...spans.map((i) => i.opening), ...spans.map((i) => i.closing), ...escapes]
+      .filter((token, index, array) => token !== '' && array.indexOf(token) === index)
+      .sort((a, b) => b.length - a.length);
+    if (tokens.length === 0) {
+      return { continuation, contentEnds };
+    }
+    const pattern = new RegExp(tokens.map(makeRegExpPart).join('|'), 'g');
+
+    let openSpan: (typeof spans)[number] | undefined;
+    lines.forEach((line, lineIndex) => {
+      if (openSpan) {
+        continuation[lineIndex] = true;
+      }
+      if (lineIndex > 0 && !openSpan && lines[lineIndex - 1].slice(0, contentEnds[lineIndex - 1]).endsWith('\\')) {
+        continuation[lineIndex] = true;
+      }
+
+      for (const match of line.matchAll(pattern)) {
+        const token = match[0];
+        if (openSpan) {
+          if (token === openSpan.closing && !escapes.includes(token)) {
+            openSpan = undefined;
+          }
+        } else if (lineComments.includes(token)) {
+          contentEnds[lineIndex] = line.slice(0, match.index).trimEnd().length;
+          break;
+        } else {
+          openSpan = spans.find((span) => span.opening === token);
+        }
+      }
+
+      // Inline strings never run past the end of their line
+      if (openSpan && !openSpan.isMultiline) {
+        openSpan = undefined;
+      }
+    });
+
+    return { continuation, contentEnds };
+  }
+
+  /**
+   * Lines that start a statement, with indentation measured like Python does (tabs
+   * to multiples of 8). Block scalar text is folded into the line that starts it.
+   */
+  private static getLogicalLines(
+    lines: string[],
+    continuation: boolean[],
+    contentEnds: number[]
+  ): LogicalLine[] {
+    const result: LogicalLine[] = [];
+    let blockScalarIndent: number | undefined;
+
+    lines.forEach((line, lineIndex) => {
+      if (line.trim().length === 0) {
+        return;
+      }
+
+      let indent = 0;
+      for (const char of line) {
+        if (char === ' ') {
+          indent++;
+        } else if (char === '\t') {
+          indent = indent + 8 - (indent % 8);
+        } else {
+          break;
+        }
+      }
+
+      const isBlockScalarText = blockScalarIndent !== undefined && indent > blockScalarIndent;
+      if (!isBlockScalarText && contentEnds[lineIndex] === 0) {
+        // Comment-only lines never open or close a block
+        return;
+      }
+
+      const current = result[result.length - 1];
+      if (continuation[lineIndex] || isBlockScalarText) {
+        if (current) {
+          current.lastLine = lineIndex;
+        }
+        return;
+      }
+
+      result.push({ line: lineIndex, indent, lastLine: lineIndex });
+      blockScalarIndent = BLOCK_SCALAR_PATTERN.test(line.slice(0, contentEnds[lineIndex]))
+        ? indent
+        : undefined;
+    });
+
+    return result;
+  }
+
+  private static insertBracket(entries: BracketEntry[], bracket: BracketEntry): void {
+    // Only indentation scopes end with an empty token; brackets already hold their own items
+    const container = entries.find(
+      (entry) =>
+        entry.end.token === '' &&
+        !entry.isUnmatchBrackets &&
+        entry.start.position.isBefore(bracket.start.position) &&
+        !entry.end.position.isBefore(bracket.start.position)
+    );
+    if (container) {
+      this.insertBracket(container.items, bracket);
+      return;
+    }
+
+    const index = entries.findIndex((entry) => bracket.start.position.isBefore(entry.start.position));
+    entries.splice(index === -1 ? entries.length : index, 0, bracket);
+  }
+}
@@ -13,6 +13,16 @@ export class LanguageFormatter {
   
   private static readonly CSS_SELECTOR_REGEX = /[.#]/g;
 
+  // Script code never holds CSS; `.then(` and `{ key: value }` only look like it
+  private static readonly SCRIPT_LANGUAGES = new Set([
+    'typescript',
+    'typescriptreact',
+    'tsx',
+    'javascript',
+    'javascriptreact',
+    'jsx',
+  ]);
+
   /**
    * Format context based on language with smart CSS detection
    */
@@ -21,12 +31,12 @@ export class LanguageFormatter {
       return '';
     }
 
-    let filteredContext = filterContent(contextInfo);
+    let filteredContext = filterContent(contextInfo, languageId);
     if (!filteredContext.trim()) {
       return '';
     }
 
-    if (this.looksLikeCSS(filteredContext)) {
+    if (!LanguageFormatter.SCRIPT_LANGUAGES.has(languageId) && this.looksLikeCSS(filteredContext)) {
       return this.formatCSS(filteredContext);
     }
 
@@ -49,6 +59,17 @@ export class LanguageFormatter {
       case 'svelte':
         return this.formatTSX(filteredContext);
 
+      case 'yaml':
+        // The list item marker says nothing about the entry
+        return filteredContext.replace(/^-\s+/, '');
+
+      case 'lua':
+        return filteredContext.replace(/^local\s+/, '');
+
+      case 'latex':
+        // `\begin{itemize}` is named by its environment
+        return filteredContext.replace(/^begin\s+/, '');
+
       default:
         return filteredContext;
     }
@@ -1,4 +1,4 @@
-import { SUPPORTED_LANGUAGES, ALLOWED_JSON_FILES, SupportedLanguage, escapeRegExp } from '../core/performance-config';
+import { SUPPORTED_LANGUAGES, ALLOWED_JSON_FILES, escapeRegExp, isConfiguredLanguage } from '../core/performance-config';
 import { formatAsyncFunction, formatComplexFunction, isAsyncFunction, isComplexFunction, FUNCTION_SYMBOLS } from './decorators/js-ts-function-decorator';
 
 // WORD LIMITS - Controls how many words are displayed
@@ -8,6 +8,7 @@ export const WORD_LIMITS = {
   MAX_CSS_WORDS: 2,              // CSS
   MAX_ARROW_WORDS: 3,            // Normal arrow
   MAX_COLLECTION_ARROW_WORDS: 1, // Collection arrow
+  MAX_DEFINITION_WORDS: 2,       // def/class/function
 } as const;
 
 /**
@@ -29,14 +30,15 @@ export const KEYWORDS = {
   CSS_RELATED_WORDS: ['style', 'styles', 'css'] as const,
   TRY_CATCH_KEYWORDS: ['try', 'catch', 'finally'] as const,
   IF_ELSE_KEYWORDS: ['if', 'else', 'switch', 'case'] as const,
+  DEFINITION_KEYWORDS: ['def', 'class', 'module', 'function'] as const,
 } as const;
 
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
 
-function isSupportedLanguage(languageId: string): languageId is SupportedLanguage {
-  return (SUPPORTED_LANGUAGES as readonly string[]).includes(languageId);
+function isSupportedLanguage(languageId: string): boolean {
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(languageId) || isConfiguredLanguage(languageId);
 }
 
 function isAllowedJsonFile(fileName: string): boolean {
@@ -85,6 +87,8 @@ function getCachedRegex(pattern: string, flags: string = 'g'): RegExp {
 const CSS_RELATED_WORDS_SET = new Set<string>(KEYWORDS.CSS_RELATED_WORDS);
 const TRY_CATCH_KEYWORDS_SET = new Set<string>(KEYWORDS.TRY_CATCH_KEYWORDS);
 const IF_ELSE_KEYWORDS_SET = new Set<string>(KEYWORDS.IF_ELSE_KEYWORDS);
+const DEFINITION_KEYWORDS_SET = new Set<string>(KEYWORDS.DEFINITION_KEYWORDS);
+const DEFINITION_LANGUAGES_SET = new Set<string>(['python', 'ruby', 'lua']);
 const CSS_LANGUAGES_SET = new Set<string>(['css', 'scss']);
 
 // ============================================================================
@@ -93,7 +97,7 @@ const CSS_LANGUAGES_SET = new Set<string>(['css', 'scss']);
 
 export type ExcludedSymbol = typeof EXCLUDED_SYMBOLS[number];
 export type CssLanguage = 'css' | 'scss';
-export type ContentType = 'async' | 'complex' | 'arrow' | 'collection-arrow' | 'css' | 'exception' | 'control-flow';
+export type ContentType = 'async' | 'complex' | 'arrow' | 'collection-arrow' | 'css' | 'exception' | 'control-flow' | 'definition';
 
 export interface FilterRules {
   excludedSymbols: readonly ExcludedSymbol[];
@@ -119,7 +123,7 @@ export const FILTER_RULES: FilterRules = {
 
 // Re-export constants for backward compatibility
 export { SUPPORTED_LANGUAGES, ALLOWED_JSON_FILES } from '../core/performance-config';
-export const { MAX_HEADER_WORDS, MAX_EXCEPTION_WORDS, MAX_CSS_WORDS, MAX_ARROW_WORDS, MAX_COLLECTION_ARROW_WORDS } = WORD_LIMITS;
+export const { MAX_HEADER_WORDS, MAX_EXCEPTION_WORDS, MAX_CSS_WORDS, MAX_ARROW_WORDS, MAX_COLLECTION_ARROW_WORDS, MAX_DEFINITION_WORDS } = WORD_LIMITS;
 export { FUNCTION_SYMBOLS };
 export const { EXCEPTION_WORDS, CSS_RELATED_WORDS, TRY_CATCH_KEYWORDS, IF_ELSE_KEYWORDS } = KEYWORDS;
 
@@ -208,6 +212,40 @@ export function containsControlFlowKeyword(text: string): boolean {
   return containsTryCatchKeyword(text) || containsIfElseKeyword(text);
 }
 
+// Keywords after which `/` starts a regex literal rather than a division
+const REGEX_PREFIX_KEYWORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void',
+  'throw', 'case', 'do', 'else', 'yield', 'await',
+]);
+
+/**
+ * Regex-vs-division heuristic: a `/` starts a regex unless it follows a value
+ * (a name, number, closing bracket or string) or closes a JSX tag.
+ */
+export function isRegexStart(text: string, index: number): boolean {
+  if (text[index + 1] === '>' || text[index - 1] === '<') {
+    return false;
+  }
+
+  let i = index - 1;
+  while (i >= 0 && /\s/.test(text[i])) {
+    i--;
+  }
+  if (i < 0) {
+    return true;
+  }
+
+  if (/[\w$]/.test(text[i])) {
+    let start = i;
+    while (start > 0 && /[\w$]/.test(text[start - 1])) {
+      start--;
+    }
+    return REGEX_PREFIX_KEYWORDS.has(text.slice(start, i + 1));
+  }
+
+  return !')]"\'`'.includes(text[i]);
+}
+
 // Re-export validation functions from decorator to avoid duplication
 export { isAsyncFunction, isComplexFunction };
 
@@ -325,15 +363,26 @@ const SYMBOL_REPLACER_REGEX = (() => {
   return new RegExp(`(${escapedSymbols.join('|')})`, 'g');
 })();
 
+const isNameCharacter = (char: string | undefined): boolean => char !== undefined && /[A-Za-z0-9]/.test(char);
+
+// Snake-case languages, whose headers would lose their names without the underscores
+const UNDERSCORE_NAME_LANGUAGES = new Set(['python', 'yaml', 'ruby', 'lua', 'shellscript', 'sql']);
+
 /**
  * LIGHTNING-FAST Content Filter - Single regex pass instead of loop!
  */
-export function filterContent(content: string): string {
+export function filterContent(content: string, languageId?: string): string {
   if (!content) {return '';}
   
   // ONE-SHOT REPLACEMENT - Replace all symbols in single pass!
+  // In snake-case languages, underscores inside a name (train_model, MAX_SIZE) are kept
+  const keepsUnderscores = languageId !== undefined && UNDERSCORE_NAME_LANGUAGES.has(languageId);
   return content
-    .replace(SYMBOL_REPLACER_REGEX, ' ')
+    .replace(SYMBOL_REPLACER_REGEX, (symbol, _group, offset: number) =>
+      keepsUnderscores && symbol === '_' && isNameCharacter(content[offset - 1]) && isNameCharacter(content[offset + 1])
+        ? symbol
+        : ' '
+    )
     .replace(/\s+/g, ' ')
     .trim();
 }
@@ -371,6 +420,10 @@ function analyzeContentSmart(text: string, languageId?: string): ContentAnalysis
     return { contentType: 'collection-arrow', maxWords: MAX_COLLECTION_ARROW_WORDS, requiresSymbol: true, isOptimized: true };
   }
   
+  if (languageId && DEFINITION_LANGUAGES_SET.has(languageId) && DEFINITION_KEYWORDS_SET.has(lowerText.split(' ')[0])) {
+    return { contentType: 'definition', maxWords: MAX_DEFINITION_WORDS, requiresSymbol: true, isOptimized: true };
+  }
+  
   if (containsExceptionWord(lowerText)) {
     return { contentType: 'exception', maxWords: MAX_EXCEPTION_WORDS, requiresSymbol: false, isOptimized: true };
   }
@@ -400,6 +453,7 @@ export function applyWordLimit(text: string, languageId?: string): string {
       case 'async': return formatAsyncFunction(words);
       case 'complex': return formatComplexFunction(words);
       case 'collection-arrow': return formatCollectionArrowFunction(words);
+      case 'definition': return words.slice(0, analysis.maxWords).join(' ');
     }
   }
   
@@ -1,11 +1,25 @@
 import * as vscode from 'vscode';
 import { LanguageFormatter } from './language-formatter';
 import { OptimizedBracketParser } from '../core/performance-parser';
-import { getEffectiveColor, onConfigurationChanged } from '../actions/colors';
+import { ParseWorkerClient, ParsedDocument } from '../core/parse-worker-client';
+import { LanguageRegistry } from '../core/language-registry';
+import { IndentationScopeParser } from './indentation-parser';
+import { EmbeddedRegionParser } from './embedded-parser';
+import { BracketDiagnostics } from './bracket-diagnostics';
+import { DocumentSymbolHeaders, SymbolHeaderResolver } from './symbol-headers';
+import { ScopeClassifier } from './scope-classifier';
+import { RenderOptionsBuilder } from './render-options';
+import { RenderModeProviders, type RenderMode } from './render-providers';
+import { FocusMode, type FocusModeSetting } from './focus-mode';
+import { UpdateMode, type UpdateModeSetting } from './update-mode';
+import { BracketLynxStatusBar } from '../actions/status-bar';
+import { ViewportMode, type LineWindow, type ViewportModeSetting } from './viewport';
+import { getEffectiveColor, getScopeColorResolver, onConfigurationChanged } from '../actions/colors';
 import { AdvancedCacheManager, SmartDebouncer } from '../core/performance-cache';
+import { TimeSlicer, type SlicedWork } from '../core/time-slicer';
 import { isExtensionEnabled, isEditorEnabled, isDocumentEnabled } from '../actions/toggle';
-import { PositionUtils, regExpExecToArray, makeRegExpPart, PERFORMANCE_LIMITS, SUPPORTED_LANGUAGES, ALLOWED_JSON_FILES, PROBLEMATIC_LANGUAGES, PROBLEMATIC_EXTENSIONS, SupportedLanguage, ProblematicLanguage, AllowedJsonFile, safeExecute, safeExecuteAsync, validateDocument, validateTextEditor, logger, LogCategory} from '../core/performance-config';
-import { FILTER_RULES, shouldExcludeSymbol, filterContent, isLanguageSupported as isLanguageSupportedRules, shouldProcessFile as shouldProcessFileRules, applyWordLimit, containsControlFlowKeyword, formatArrowFunction } from './lens-rules';
+import { PositionUtils, regExpExecToArray, makeRegExpPart, PERFORMANCE_LIMITS, SUPPORTED_LANGUAGES, ALLOWED_JSON_FILES, PROBLEMATIC_LANGUAGES, PROBLEMATIC_EXTENSIONS, SupportedLanguage, ProblematicLanguage, AllowedJsonFile, safeExecute, safeExecuteAsync, validateDocument, validateTextEditor, logger, LogCategory, isConfiguredLanguage, hasBracketTokens} from '../core/performance-config';
+import { FILTER_RULES, shouldExcludeSymbol, filterContent, isLanguageSupported as isLanguageSupportedRules, shouldProcessFile as shouldProcessFileRules, applyWordLimit, formatArrowFunction, isRegexStart } from './lens-rules';
 
 // RE-EXPORT CONSTANTS FOR EASY ACCESS
 export {
@@ -22,10 +36,11 @@ export {
 // CONFIGURATION UTILITY FUNCTIONS
 // ============================================================================
 
-export function isSupportedLanguage(
-  languageId: string
-): languageId is SupportedLanguage {
-  return (SUPPORTED_LANGUAGES as readonly string[]).includes(languageId);
+export function isSupportedLanguage(languageId: string): boolean {
+  return (
+    (SUPPORTED_LANGUAGES as readonly string[]).includes(languageId) ||
+    isConfiguredLanguage(languageId)
+  );
 }
 
 export function isProblematicLanguage(
@@ -68,11 +83,16 @@ export type HeaderMode = 'before' | 'smart' | 'inner';
 
 export interface BracketTrait extends ScopeTerms {
   headerMode?: HeaderMode;
+  // Tokens that end the scope and start the next part of it (`else`, `elif`, `rescue`)
   inters?: string[];
+  // Only opens at the start of a statement, so modifier forms like `return x if y` are skipped
+  statementStart?: boolean;
 }
 
 export interface StringTrait extends ScopeTerms {
   escape: string[];
+  // Only opens when not right after a letter or digit, so `Don't` in JSX text stays text
+  notAfterWord?: boolean;
 }
 
 export interface LanguageConfiguration {
@@ -91,6 +111,10 @@ export interface LanguageConfiguration {
   };
   terminators?: string[];
   ignoreSymbols?: string[];
+  // Offside-rule languages: indented blocks are scopes too
+  indentation?: boolean;
+  // Script languages: a `/` in front of a value opens a regex literal
+  regexLiterals?: boolean;
 }
 
 export interface TokenEntry {
@@ -98,12 +122,35 @@ export interface TokenEntry {
   token: string;
 }
 
+// What a scope holds: `call` is an argument list, `type` a type literal or declaration body
+export type ScopeKind =
+  | 'function'
+  | 'class'
+  | 'type'
+  | 'object'
+  | 'array'
+  | 'call'
+  | 'control-flow'
+  | 'jsx-element'
+  | 'css-rule'
+  | 'block';
+
 export interface BracketEntry {
   start: TokenEntry;
   end: TokenEntry;
   headerMode: HeaderMode;
   isUnmatchBrackets: boolean;
   items: BracketEntry[];
+  // Set by ScopeClassifier once parsing is done
+  kind?: ScopeKind;
+}
+
+/**
+ * How far a sliced parse has got: the scopes closed before `offset`
+ */
+export interface ParseProgress {
+  offset: number;
+  brackets: () => BracketEntry[];
 }
 
 export interface BracketContext {
@@ -116,17 +163,225 @@ export interface BracketContext {
 export interface BracketDecorationSource {
   range: vscode.Range;
   bracketHeader: string;
+  // What the decorated scope is, for coloring by kind or nesting depth
+  kind?: ScopeKind;
+  depth: number;
+  isUnmatchBrackets: boolean;
+  // 0-based line of the scope's opening bracket
+  openingLine: number;
 }
 
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
+
+// Built-in grammars for languages whose blocks are marked by indentation or keywords
+const BUILT_IN_GRAMMARS: Record<string, LanguageConfiguration> = {
+  python: {
+    ignoreCase: false,
+    comments: { line: ['#'] },
+    brackets: {
+      symbol: [
+        { opening: '{', closing: '}', headerMode: 'smart' },
+        { opening: '[', closing: ']', headerMode: 'smart' },
+        { opening: '(', closing: ')', headerMode: 'smart' },
+      ],
+    },
+    strings: {
+      inline: [
+        { opening: '"', closing: '"', escape: ['\\\\', '\\"'] },
+        { opening: "'", closing: "'", escape: ['\\\\', "\\'"] },
+      ],
+      multiline: [
+        { opening: '"""', closing: '"""', escape: ['\\\\', '\\"'] },
+        { opening: "'''", closing: "'''", escape: ['\\\\', "\\'"] },
+      ],
+    },
+    terminators: [';'],
+    indentation: true,
+  },
+  yaml: {
+    ignoreCase: false,
+    comments: { line: ['#'] },
+    brackets: {
+      symbol: [
+        { opening: '{', closing: '}', headerMode: 'smart' },
+        { opening: '[', closing: ']', headerMode: 'smart' },
+      ],
+    },
+    strings: {
+      inline: [
+        { opening: '"', closing: '"', escape: ['\\\\', '\\"'] },
+        { opening: "'", closing: "'", escape: ["''"] },
+      ],
+    },
+    terminators: [],
+    indentation: true,
+  },
+  ruby: {
+    ignoreCase: false,
+    comments: {
+      line: ['#'],
+      block: [{ opening: '=begin', closing: '=end' }],
+    },
+    brackets: {
+      symbol: [
+        { opening: '{', closing: '}', headerMode: 'smart' },
+        { opening: '[', closing: ']', headerMode: 'smart' },
+        { opening: '(', closing: ')', headerMode: 'smart' },
+      ],
+      word: [
+        { opening: 'def', closing: 'end', inters: ['rescue', 'else', 'ensure'] },
+        { opening: 'class', closing: 'end', inters: ['rescue', 'ensure'] },
+        { opening: 'module', closing: 'end' },
+        { opening: 'do', closing: 'end', headerMode: 'smart', inters: ['rescue', 'ensure'] },
+        { opening: 'begin', closing: 'end', inters: ['rescue', 'else', 'ensure'] },
+        { opening: 'case', closing: 'end', inters: ['when', 'in', 'else'] },
+        { opening: 'if', closing: 'end', inters: ['elsif', 'else'], statementStart: true },
+        { opening: 'unless', closing: 'end', inters: ['else'], statementStart: true },
+        { opening: 'while', closing: 'end', statementStart: true },
+        { opening: 'until', closing: 'end', statementStart: true },
+        { opening: 'for', closing: 'end', statementStart: true },
+      ],
+    },
+    strings: {
+      inline: [
+        { opening: '"', closing: '"', escape: ['\\\\', '\\"'] },
+        { opening: "'", closing: "'", escape: ['\\\\', "\\'"] },
+      ],
+    },
+    terminators: [';'],
+    // Method calls and symbols that share a keyword's name
+    ignoreSymbols: ['.end', ':end', '.class', '.begin'],
+  },
+  lua: {
+    ignoreCase: false,
+    comments: {
+      line: ['--'],
+      block: [{ opening: '--[[', closing: ']]' }],
+    },
+    brackets: {
+      // No `[` here: `]]` closes long strings and comments
+      symbol: [
+        { opening: '{', closing: '}', headerMode: 'smart' },
+        { opening: '(', closing: ')', headerMode: 'smart' },
+      ],
+      word: [
+        { opening: 'function', closing: 'end' },
+        { opening: 'do', closing: 'end', headerMode: 'smart' },
+        { opening: 'if', closing: 'end', inters: ['elseif', 'else'] },
+        { opening: 'repeat', closing: 'until' },
+      ],
+    },
+    strings: {
+      inline: [
+        { opening: '"', closing: '"', escape: ['\\\\', '\\"'] },
+        { opening: "'", closing: "'", escape: ['\\\\', "\\'"] },
+      ],
+      multiline: [{ opening: '[[', closing: ']]', escape: [] }],
+    },
+    terminators: [';'],
+  },
+  shellscript: {
+    ignoreCase: false,
+    comments: { line: ['#'] },
+    brackets: {
+      // No `(` here: `case` patterns close with an unmatched `)`
+      symbol: [
+        { opening: '{', closing: '}', headerMode: 'smart' },
+        // Keeps the `#` of a length expansion from reading as a comment
+        { opening: '${#', closing: '}' },
+      ],
+      word: [
+        { opening: 'if', closing: 'fi', inters: ['elif', 'else'] },
+        { opening: 'case', closing: 'esac' },
+        { opening: 'do', closing: 'done', headerMode: 'smart' },
+      ],
+    },
+    strings: {
+      inline: [
+        { opening: '"', closing: '"', escape: ['\\\\', '\\"'] },
+        { opening: "'", closing: "'", escape: [] },
+      ],
+    },
+    terminators: [';', '&&', '||'],
+    // Special parameters and expansions that contain `#`
+    ignoreSymbols: ['$#', '\\#', '##*', '#*'],
+  },
+  sql: {
+    ignoreCase: true,
+    comments: {
+      line: ['--'],
+      block: [{ opening: '/*', closing: '*/' }],
+    },
+    brackets: {
+      symbol: [{ opening: '(', closing: ')', headerMode: 'smart' }],
+      word: [
+        { opening: 'BEGIN', closing: 'END' },
+        { opening: 'CASE', closing: 'END' },
+      ],
+    },
+    strings: {
+      inline: [
+        { opening: "'", closing: "'", escape: ["''"] },
+        { opening: '"', closing: '"', escape: ['""'] },
+      ],
+    },
+    terminators: [';', ','],
+    // Keywords that end or start something other than a BEGIN block
+    ignoreSymbols: [
+      'END IF',
+      'END LOOP',
+      'END WHILE',
+      'END REPEAT',
+      'END CASE',
+      'END FOR',
+      'BEGIN;',
+      'BEGIN TRANSACTION',
+      'BEGIN TRAN',
+      'BEGIN WORK',
+    ],
+  },
+  latex: {
+    ignoreCase: false,
+    comments: { line: ['%'] },
+    brackets: {
+      symbol: [{ opening: '{', closing: '}', headerMode: 'smart' }],
+      word: [{ opening: '\\begin', closing: '\\end' }],
+    },
+    strings: {},
+    terminators: [],
+    ignoreSymbols: ['\\%', '\\{', '\\}'],
+  },
+};
+
+const SCRIPT_STRINGS: LanguageConfiguration['strings'] = {
+  inline: [
+    { opening: '"', closing: '"', escape: ['\\\\', '\\"'] },
+    { opening: "'", closing: "'", escape: ['\\\\', "\\'"] },
+  ],
+  multiline: [{ opening: '`', closing: '`', escape: ['\\\\', '\\`'] }],
+};
+
+const JSX_STRINGS: LanguageConfiguration['strings'] = {
+  inline: [
+    { opening: '"', closing: '"', escape: ['\\\\', '\\"'], notAfterWord: true },
+    { opening: "'", closing: "'", escape: ['\\\\', "\\'"], notAfterWord: true },
+  ],
+  multiline: [{ opening: '`', closing: '`', escape: ['\\\\', '\\`'] }],
+};
+
+// Escapes a regex literal may hold, next to the string escapes of its language
+const REGEX_ESCAPES = ['\\\\', '\\/', '\\[', '\\]'];
+
+export const DEFAULT_DECORATION_FORMAT = '{prefix}#{start}-{end} •{header}';
+
 export class BracketLynxConfig {
   private static getConfig() {
     return vscode.workspace.getConfiguration('bracketLynx');
   }
 
-  static get mode(): string {
+  static get mode(): UpdateModeSetting {
     return this.getConfig().get('mode', 'auto');
   }
 
@@ -155,14 +410,50 @@ export class BracketLynxConfig {
     return this.getConfig().get('fontStyle', 'italic');
   }
 
+  static get viewportMode(): ViewportModeSetting {
+    return this.getConfig().get('viewportMode', 'off');
+  }
+
+  static get focusMode(): FocusModeSetting {
+    return this.getConfig().get('focusMode', 'off');
+  }
+
+  static get renderMode(): RenderMode {
+    return this.getConfig().get('renderMode', 'decoration');
+  }
+
+  // Checked and given defaults by RenderOptionsBuilder
+  static get render(): Record<string, unknown> {
+    return this.getConfig().get<Record<string, unknown>>('render', {}) ?? {};
+  }
+
   static get prefix(): string {
     return this.getConfig().get('prefix', '‹~ ');
   }
 
+  /**
+   * Decoration text template, e.g. `{prefix}{lines} lines •{header}`
+   */
+  static get format(): string {
+    return this.getConfig().get('format', DEFAULT_DECORATION_FORMAT);
+  }
+
   static get unmatchBracketsPrefix(): string {
     return this.getConfig().get('unmatchBracketsPrefix', '❌ ');
   }
 
+  static get reportUnmatchedBrackets(): boolean {
+    return this.getConfig().get('reportUnmatchedBrackets', true);
+  }
+
+  /**
+   * `text` reads headers from the code around a scope; `symbols` asks the language's
+   * symbol provider first and falls back to the text
+   */
+  static get headerSource(): 'text' | 'symbols' {
+    return this.getConfig().get('headerSource', 'text');
+  }
+
   static get maxBracketHeaderLength(): number {
     const value = this.getConfig().get('maxBracketHeaderLength', PERFORMANCE_LIMITS.MAX_HEADER_LENGTH);
     return Math.max(10, Math.min(200, value)); // Clamp between 10-200
@@ -182,19 +473,79 @@ export class BracketLynxConfig {
     return Math.max(1024 * 1024, Math.min(100 * 1024 * 1024, value)); // Clamp between 1MB-100MB
   }
 
+  /**
+   * Average line length above which a file is treated as minified and skipped
+   */
+  static get minifiedLineLength(): number {
+    const value = this.getConfig().get('minifiedLineLength', 500);
+    return Math.max(100, value);
+  }
+
+  static get minifiedFileSuffixes(): string[] {
+    return this.getConfig().get('minifiedFileSuffixes', ['.min.js', '.min.css', '.bundle.js', '.chunk.js']);
+  }
+
+  /**
+   * Whether "Decorate This File Anyway" lifted the performance filters for the document
+   */
+  static isForceDecorated(document: vscode.TextDocument): boolean {
+    return this.getConfig().get<string[]>('forceDecoratedFiles', []).includes(document.uri.toString());
+  }
+
+  /**
+   * Milliseconds a parse and header pass may take before the file steps down to stricter filters, 0 to disable
+   */
+  static get updateTimeBudget(): number {
+    return Math.max(0, this.getConfig().get('updateTimeBudget', 100));
+  }
+
+  /**
+   * Milliseconds an in-process update may take before the scopes parsed on screen are shown, 0 to wait for the whole file
+   */
+  static get partialRenderBudget(): number {
+    return Math.max(0, this.getConfig().get('partialRenderBudget', 50));
+  }
+
+  static get parseInWorker(): boolean {
+    return this.getConfig().get('parseInWorker', true);
+  }
+
   static get maxDecorationsPerFile(): number {
     const value = this.getConfig().get('maxDecorationsPerFile', PERFORMANCE_LIMITS.MAX_DECORATIONS_PER_FILE);
     return Math.max(50, Math.min(2000, value)); // Clamp between 50-2000
   }
 
   static get languageConfiguration(): LanguageConfiguration {
-    return this.getConfig().get(
-      'languageConfiguration',
-      this.getDefaultLanguageConfig()
-    );
+    return this.getDefaultLanguageConfig();
+  }
+
+  /**
+   * User grammars from `bracketLynx.languages`, keyed by language ID, leaving out those without a bracket pair
+   */
+  static get languages(): Record<string, Partial<LanguageConfiguration>> {
+    const languages: Record<string, Partial<LanguageConfiguration>> = this.getConfig().get('languages', {}) ?? {};
+    return Object.fromEntries(Object.entries(languages).filter(([, grammar]) => hasBracketTokens(grammar)));
+  }
+
+  /**
+   * Whether Bracket Lynx ships a full grammar for the language
+   */
+  static hasBuiltInGrammar(languageId: string): boolean {
+    return languageId in BUILT_IN_GRAMMARS;
   }
 
   static getLanguageSpecificConfig(languageId: string): LanguageConfiguration {
+    // A user grammar replaces the built-in one entirely
+    const userConfig = this.languages[languageId];
+    if (userConfig) {
+      return { ...userConfig, ignoreCase: userConfig.ignoreCase ?? false };
+    }
+
+    const builtInGrammar = BUILT_IN_GRAMMARS[languageId];
+    if (builtInGrammar) {
+      return builtInGrammar;
+    }
+
     const baseConfig = this.languageConfiguration;
     
     // Language-specific comment configurations
@@ -212,15 +563,27 @@ export class BracketLynxConfig {
       'json': { line: [], block: [] }
     };
 
+    // Quotes in script code; in JSX a quote right after a letter is text, as in `Don't`
+    const languageStrings: Record<string, LanguageConfiguration['strings']> = {
+      'javascript': SCRIPT_STRINGS,
+      'typescript': SCRIPT_STRINGS,
+      'javascriptreact': JSX_STRINGS,
+      'typescriptreact': JSX_STRINGS,
+    };
+
     const languageSpecific = languageComments[languageId];
     if (languageSpecific) {
       return {
         ...baseConfig,
-        comments: languageSpecific
+        comments: languageSpecific,
+        strings: languageStrings[languageId] ?? baseConfig.strings,
+        // The script languages are exactly those with quote strings
+        ...(languageId in languageStrings && { regexLiterals: true }),
       };
     }
 
-    return baseConfig;
+    // Opted-in languages fall back to the grammar their own extension contributes
+    return LanguageRegistry.getInstance().getDerivedConfiguration(languageId) ?? baseConfig;
   }
 
   private static getDefaultLanguageConfig(): LanguageConfiguration {
@@ -259,36 +622,105 @@ const isInlineScope = (bracket: BracketEntry) =>
 
 export class DocumentDecorationCacheEntry {
   brackets: BracketEntry[];
+  // Before the performance filters dropped short scopes; unmatched brackets are reported from these
+  unfilteredBrackets: BracketEntry[];
+  // Empty when sources are built lazily around each viewport; see getDecorationSource
   decorationSource: BracketDecorationSource[] = [];
+  symbolHeaders?: SymbolHeaderResolver;
+  version: number;
+
+  constructor(
+    document: vscode.TextDocument,
+    parsed?: ParsedDocument,
+    symbolHeaders?: SymbolHeaderResolver
+  ) {
+    const { brackets, unfilteredBrackets, decorationSource, parseTime } =
+      parsed ?? DocumentDecorationCacheEntry.parse(document, symbolHeaders);
+    // Wherever it ran, the extension host decides the file's next performance mode
+    OptimizedBracketParser.getInstance().recordUpdateTime(document.uri.toString(), parseTime);
+    this.brackets = brackets;
+    this.unfilteredBrackets = unfilteredBrackets;
+    this.symbolHeaders = symbolHeaders;
+    // The worker cannot reach symbol providers, so its headers are rebuilt here when symbols are known
+    this.decorationSource =
+      parsed && symbolHeaders && !parsed.hasSymbolHeaders && !ViewportMode.isEnabled
+        ? BracketDecorationGenerator.getBracketDecorationSource(document, brackets, symbolHeaders)
+        : decorationSource;
+    this.version = parsed?.version ?? document.version;
+    CacheManager.documentCache.set(document, this);
+  }
+
+  /**
+   * Parse brackets and build their headers. Runs in the parse worker, or
+   * in-process when the worker is unavailable.
+   */
+  static parse(
+    document: vscode.TextDocument,
+    symbolHeaders?: SymbolHeaderResolver
+  ): Omit<ParsedDocument, 'version'> {
+    return TimeSlicer.runSync(this.parseInSlices(document, symbolHeaders));
+  }
 
-  constructor(document: vscode.TextDocument) {
+  /**
+   * parse as a pass that yields between batches. Progress reports carry the scopes
+   * closed so far, and all of them once header generation has started.
+   */
+  static *parseInSlices(
+    document: vscode.TextDocument,
+    symbolHeaders?: SymbolHeaderResolver
+  ): SlicedWork<Omit<ParsedDocument, 'version'>, ParseProgress> {
+    const startTime = Date.now();
     // Use parser exception manager
     const optimizedParser = OptimizedBracketParser.getInstance();
+    let brackets: BracketEntry[];
+    let unfilteredBrackets: BracketEntry[];
     if (optimizedParser.shouldUseOriginalParser(document)) {
-      // Use original parser for problematic files
-      this.brackets = BracketParser.parseBrackets(document);
-
-
+      brackets = unfilteredBrackets = yield* BracketParser.parseBracketsInSlices(document);
     } else {
-      // Use optimized parser for other files
-      this.brackets = optimizedParser.parseBrackets(document);
-
-
+      ({ brackets, unfilteredBrackets } = yield* optimizedParser.parseIncrementalInSlices(document, []));
     }
+    ScopeClassifier.classify(document, brackets);
+    const decorationSource = ViewportMode.isEnabled
+      ? []
+      : yield* TimeSlicer.report(
+          BracketDecorationGenerator.getBracketDecorationSourceInSlices(document, brackets, symbolHeaders),
+          { offset: document.getText().length, brackets: () => brackets }
+        );
 
-    this.decorationSource =
-      BracketDecorationGenerator.getBracketDecorationSource(
-        document,
-        this.brackets
-      );
-    CacheManager.documentCache.set(document, this);
+    return {
+      brackets,
+      unfilteredBrackets,
+      decorationSource,
+      parseTime: Date.now() - startTime,
+      hasSymbolHeaders: !!symbolHeaders,
+    };
+  }
+
+  /**
+   * The entry's decoration sources, or in viewport mode those built for the given lines.
+   * Static, because the advanced cache hands out plain copies of entries.
+   */
+  static getDecorationSource(
+    document: vscode.TextDocument,
+    entry: DocumentDecorationCacheEntry,
+    window?: LineWindow
+  ): BracketDecorationSource[] {
+    return ViewportMode.isEnabled
+      ? BracketDecorationGenerator.getBracketDecorationSource(document, entry.brackets, entry.symbolHeaders, window)
+      : entry.decorationSource;
   }
 }
 
 export class EditorDecorationCacheEntry {
   isMuted: boolean | undefined;
+  // The parse the decorations were drawn from, and which of its scopes are shown
+  renderedDocument?: DocumentDecorationCacheEntry;
+  shownKey?: string;
+  // Decorations drawn by the last update, for the status bar
+  decorationCount = 0;
   private isDirtyValue: boolean = false;
-  private bracketHeaderInformationDecoration?: vscode.TextEditorDecorationType;
+  // One decoration type per color, reused from one update to the next
+  private decorationTypes = new Map<string, vscode.TextEditorDecorationType>();
 
   constructor(editor: vscode.TextEditor) {
     CacheManager.editorCache.set(editor, this);
@@ -300,16 +732,39 @@ export class EditorDecorationCacheEntry {
     this.isDirtyValue = true;
   };
 
-  setBracketHeaderInformationDecoration = (
-    decoration?: vscode.TextEditorDecorationType
+  /**
+   * Show decorations grouped by color. Types of colors that are no longer used are disposed.
+   */
+  setDecorations = (
+    editor: vscode.TextEditor,
+    optionsByColor: Map<string, vscode.DecorationOptions[]>
   ) => {
-    this.dispose();
-    this.bracketHeaderInformationDecoration = decoration;
+    optionsByColor.forEach((options, color) => {
+      let decorationType = this.decorationTypes.get(color);
+      if (!decorationType) {
+        decorationType = vscode.window.createTextEditorDecorationType({
+          isWholeLine: true,
+          after: { color },
+        });
+        this.decorationTypes.set(color, decorationType);
+      }
+      editor.setDecorations(decorationType, options);
+    });
+    this.decorationCount = [...optionsByColor.values()].reduce((sum, options) => sum + options.length, 0);
+
+    this.decorationTypes.forEach((decorationType, color) => {
+      if (!optionsByColor.has(color)) {
+        decorationType.dispose();
+        this.decorationTypes.delete(color);
+      }
+    });
+    this.isDirtyValue = false;
   };
 
   dispose = () => {
-    this.bracketHeaderInformationDecoration?.dispose();
-    this.bracketHeaderInformationDecoration = undefined;
+    this.decorationTypes.forEach((decorationType) => decorationType.dispose());
+    this.decorationTypes.clear();
+    this.decorationCount = 0;
     this.isDirtyValue = false;
   };
 }
@@ -325,7 +780,27 @@ export class CacheManager {
   // Advanced cache manager instance
   private static advancedCache = AdvancedCacheManager.getInstance();
 
-  static getDocumentCache = (document: vscode.TextDocument) => {
+  // Worker parses in flight, one per document URI; a newer version cancels the older one
+  private static pendingParses = new Map<
+    string,
+    {
+      version: number;
+      tokenSource: vscode.CancellationTokenSource;
+      entry: Promise<DocumentDecorationCacheEntry | undefined>;
+    }
+  >();
+
+  /**
+   * Resolve the entry for the document's current version, parsing in the worker
+   * when it is available. Resolves undefined when the version is superseded or
+   * the caller's token is cancelled before the result arrives. `onProgress` sees
+   * an in-process parse once it has run past the partial render budget.
+   */
+  static getDocumentCache = async (
+    document: vscode.TextDocument,
+    token?: vscode.CancellationToken,
+    onProgress?: (progress: ParseProgress, symbolHeaders?: SymbolHeaderResolver) => void
+  ): Promise<DocumentDecorationCacheEntry | undefined> => {
     // Try advanced cache first
     const advancedEntry = this.advancedCache.getDocumentCache(document);
     if (advancedEntry) {
@@ -334,20 +809,100 @@ export class CacheManager {
 
     // Fallback to legacy behavior
     const existing = this.documentCache.get(document);
-    if (existing) {
+    if (existing && existing.version === document.version) {
       return existing;
     }
 
+    const version = document.version;
+    const symbolHeaders = await DocumentSymbolHeaders.getResolver(document);
+    if (token?.isCancellationRequested || document.isClosed || document.version !== version) {
+      return undefined;
+    }
+
+    if (!BracketLynxConfig.parseInWorker || !ParseWorkerClient.getInstance().isAvailable()) {
+      return this.parseInSlices(document, token, symbolHeaders, onProgress);
+    }
+
+    const entry = await this.parseInWorker(document, symbolHeaders);
+    return token?.isCancellationRequested ? undefined : entry;
+  };
+
+  private static createDocumentCache = (
+    document: vscode.TextDocument,
+    parsed?: ParsedDocument,
+    symbolHeaders?: SymbolHeaderResolver
+  ): DocumentDecorationCacheEntry => {
     // Create new entry and cache it in both systems
-    const newEntry = new DocumentDecorationCacheEntry(document);
+    const newEntry = new DocumentDecorationCacheEntry(document, parsed, symbolHeaders);
     this.advancedCache.setDocumentCache(
       document,
       newEntry.brackets,
-      newEntry.decorationSource
+      newEntry.unfilteredBrackets,
+      newEntry.decorationSource,
+      newEntry.symbolHeaders
     );
     return newEntry;
   };
 
+  /**
+   * Parse on the extension host in time slices, so other editors stay responsive meanwhile
+   */
+  private static parseInSlices = async (
+    document: vscode.TextDocument,
+    token?: vscode.CancellationToken,
+    symbolHeaders?: SymbolHeaderResolver,
+    onProgress?: (progress: ParseProgress, symbolHeaders?: SymbolHeaderResolver) => void
+  ): Promise<DocumentDecorationCacheEntry | undefined> => {
+    const version = document.version;
+    const sliced = await TimeSlicer.run(DocumentDecorationCacheEntry.parseInSlices(document, symbolHeaders), {
+      budget: BracketLynxConfig.partialRenderBudget,
+      token,
+      shouldStop: () => document.isClosed || document.version !== version,
+      onProgress: (progress) => onProgress?.(progress, symbolHeaders),
+    });
+    if (!sliced) {
+      return undefined;
+    }
+
+    // Time spent waiting between slices does not count against the file's update budget
+    return this.createDocumentCache(document, { ...sliced.value, version, parseTime: sliced.busyTime }, symbolHeaders);
+  };
+
+  private static parseInWorker = (
+    document: vscode.TextDocument,
+    symbolHeaders?: SymbolHeaderResolver
+  ): Promise<DocumentDecorationCacheEntry | undefined> => {
+    const uri = document.uri.toString();
+    const version = document.version;
+
+    const pending = this.pendingParses.get(uri);
+    if (pending && pending.version === version) {
+      return pending.entry;
+    }
+    pending?.tokenSource.cancel();
+
+    const tokenSource = new vscode.CancellationTokenSource();
+    const entry = ParseWorkerClient.getInstance()
+      .parse(document, tokenSource.token)
+      .then((parsed) => {
+        if (this.pendingParses.get(uri)?.tokenSource === tokenSource) {
+          this.pendingParses.delete(uri);
+        }
+        tokenSource.dispose();
+
+        // Discard results for a version the user has already edited past
+        if (document.isClosed || document.version !== version) {
+          return undefined;
+        }
+
+        // No result for the current version means the worker failed; parse here instead
+        return this.createDocumentCache(document, parsed, symbolHeaders);
+      });
+
+    this.pendingParses.set(uri, { version, tokenSource, entry });
+    return entry;
+  };
+
   static getEditorCache = (textEditor: vscode.TextEditor) => {
     // Try advanced cache first
     const advancedEntry = this.advancedCache.getEditorCache(textEditor);
@@ -365,6 +920,7 @@ export class CacheManager {
     // RESTORE: Clear optimized parser cache
     const optimizedParser = OptimizedBracketParser.getInstance();
     optimizedParser.clearAllCache();
+    ParseWorkerClient.getInstance().clearCache();
 
     // Keep legacy behavior for compatibility
     this.documentCache.clear();
@@ -373,7 +929,16 @@ export class CacheManager {
     }
   };
 
+  static invalidateDocument = (document: vscode.TextDocument): void => {
+    this.documentCache.delete(document);
+    this.advancedCache.clearDocumentCache(document);
 
+    for (const textEditor of vscode.window.visibleTextEditors) {
+      if (textEditor.document === document) {
+        this.editorCache.get(textEditor)?.setDirty();
+      }
+    }
+  };
 
   // New methods for performance monitoring
   static getCacheMetrics() {
@@ -390,9 +955,27 @@ export class CacheManager {
 // ============================================================================
 
 export class BracketParser {
+  private static readonly SLICE_TOKENS = 256;
+
   static parseBrackets(document: vscode.TextDocument): BracketEntry[] {
+    return TimeSlicer.runSync(this.parseBracketsInSlices(document));
+  }
+
+  /**
+   * parseBrackets as a pass that yields between token batches. Embedded regions and
+   * indentation scopes are built whole, so only plain bracket scans report progress.
+   */
+  static *parseBracketsInSlices(document: vscode.TextDocument): SlicedWork<BracketEntry[], ParseProgress> {
+    if (EmbeddedRegionParser.isEmbeddingLanguage(document.languageId)) {
+      return EmbeddedRegionParser.parseRegions(document, (regionDocument) =>
+        this.parseBrackets(regionDocument)
+      );
+    }
+
     const result: BracketEntry[] = [];
-    const languageConfiguration = BracketLynxConfig.languageConfiguration;
+    const languageConfiguration = BracketLynxConfig.getLanguageSpecificConfig(
+      document.languageId
+    );
     const regulate = languageConfiguration.ignoreCase
       ? (text: string) => text.replace(/\s+/, ' ').toLowerCase()
       : (text: string) => text.replace(/\s+/, ' ');
@@ -406,16 +989,21 @@ export class BracketParser {
       symbolBracketInters,
       closingSymbolBrackets,
       symbolBracketsHeader,
+      symbolBracketsInters,
       openingWordBrackets,
       wordBracketInters,
       closingWordBrackets,
       wordBracketsHeader,
+      wordBracketsInters,
+      wordBracketsStatementStart,
       openingInlineStrings,
       escapeInlineStrings,
       closingInlineStrings,
       openingMultilineStrings,
       escapeMultilineStrings,
       closingMultilineStrings,
+      inlineStringsNotAfterWord,
+      regexTokens,
       ignoreSymbols,
     } = this.extractLanguageTokens(languageConfiguration, regulate);
 
@@ -437,6 +1025,7 @@ export class BracketParser {
       ...openingMultilineStrings,
       ...escapeMultilineStrings,
       ...closingMultilineStrings,
+      ...regexTokens,
     ]);
 
     // Tokenize document
@@ -448,7 +1037,7 @@ export class BracketParser {
     );
 
     // Parse tokens
-    return this.parseTokens(
+    const scan = this.parseTokens(
       document,
       tokens,
       regulate,
@@ -459,16 +1048,27 @@ export class BracketParser {
         openingSymbolBrackets,
         closingSymbolBrackets,
         symbolBracketsHeader,
+        symbolBracketsInters,
         openingWordBrackets,
         closingWordBrackets,
         wordBracketsHeader,
+        wordBracketsInters,
+        wordBracketsStatementStart,
         openingInlineStrings,
         closingInlineStrings,
         openingMultilineStrings,
         closingMultilineStrings,
+        inlineStringsNotAfterWord,
+        regexLiterals: languageConfiguration.regexLiterals ?? false,
       },
       result
     );
+
+    if (!languageConfiguration.indentation) {
+      return yield* scan;
+    }
+    const brackets = yield* TimeSlicer.report(scan, undefined);
+    return IndentationScopeParser.parseScopes(document, languageConfiguration, brackets);
   }
 
   private static extractLanguageTokens(
@@ -501,6 +1101,10 @@ export class BracketParser {
         languageConfiguration.brackets?.symbol?.map(
           (i) => i.headerMode ?? 'smart'
         ) ?? [],
+      symbolBracketsInters:
+        languageConfiguration.brackets?.symbol?.map(
+          (i) => i.inters?.map(regulate) ?? []
+        ) ?? [],
       openingWordBrackets:
         languageConfiguration.brackets?.word?.map((i) => regulate(i.opening)) ??
         [],
@@ -515,6 +1119,14 @@ export class BracketParser {
         languageConfiguration.brackets?.word?.map(
           (i) => i.headerMode ?? 'inner'
         ) ?? [],
+      wordBracketsInters:
+        languageConfiguration.brackets?.word?.map(
+          (i) => i.inters?.map(regulate) ?? []
+        ) ?? [],
+      wordBracketsStatementStart:
+        languageConfiguration.brackets?.word?.map(
+          (i) => i.statementStart ?? false
+        ) ?? [],
       openingInlineStrings:
         languageConfiguration.strings?.inline?.map((i) =>
           regulate(i.opening)
@@ -539,16 +1151,25 @@ export class BracketParser {
         languageConfiguration.strings?.multiline?.map((i) =>
           regulate(i.closing)
         ) ?? [],
+      inlineStringsNotAfterWord:
+        languageConfiguration.strings?.inline?.map(
+          (i) => i.notAfterWord ?? false
+        ) ?? [],
+      regexTokens: languageConfiguration.regexLiterals
+        ? ['/', ...REGEX_ESCAPES]
+        : [],
       ignoreSymbols:
         languageConfiguration.ignoreSymbols?.map((i) => regulate(i)) ?? [],
     };
   }
 
   private static createTokenPattern(tokens: string[]): string {
+    // Longest tokens first so `"""` is not read as three `"`
     return tokens
       .filter(
         (entry, index, array) => '' !== entry && index === array.indexOf(entry)
       )
+      .sort((a, b) => b.length - a.length)
       .map((i) => `${makeRegExpPart(i)}`)
       .join('|');
   }
@@ -567,13 +1188,14 @@ export class BracketParser {
     }));
   }
 
-  private static parseTokens(
+  private static *parseTokens(
     document: vscode.TextDocument,
     tokens: { index: number; token: string }[],
     regulate: (text: string) => string,
     tokenConfig: any,
     result: BracketEntry[]
-  ): BracketEntry[] {
+  ): SlicedWork<BracketEntry[], ParseProgress> {
+    const text = document.getText();
     const getCharacter = (index: number) =>
       index < 0
         ? ''
@@ -594,6 +1216,7 @@ export class BracketParser {
       start: TokenEntry;
       closing: string;
       headerMode: HeaderMode;
+      inters: string[];
       items: BracketEntry[];
     }[] = [];
     let i = 0;
@@ -609,7 +1232,10 @@ export class BracketParser {
       }
     };
 
-    const write = (closingToken: { index: number; token: string }) => {
+    const write = (
+      closingToken: { index: number; token: string },
+      isInter: boolean = false
+    ) => {
       const scope = scopeStack.pop();
       if (scope) {
         writeCore({
@@ -621,7 +1247,8 @@ export class BracketParser {
             token: closingToken.token,
           },
           headerMode: scope.headerMode,
-          isUnmatchBrackets: scope.closing !== regulate(closingToken.token),
+          isUnmatchBrackets:
+            !isInter && scope.closing !== regulate(closingToken.token),
           items: scope.items,
         });
       } else {
@@ -645,7 +1272,16 @@ export class BracketParser {
     };
 
     // Process tokens
+    let nextSlice = this.SLICE_TOKENS;
     while (i < tokens.length) {
+      if (nextSlice <= i) {
+        nextSlice = i + this.SLICE_TOKENS;
+        // Completed entries sit in the result, then in each open scope from the outermost in
+        yield {
+          offset: tokens[i].index,
+          brackets: () => [...result, ...scopeStack.flatMap((scope) => scope.items)],
+        };
+      }
       const token = regulate(tokens[i].token);
 
       if (this.processBlockComment(i, tokens, token, tokenConfig, regulate)) {
@@ -688,13 +1324,25 @@ export class BracketParser {
         )
       ) {
         i++;
+      } else if (
+        this.processInterBracket(
+          i,
+          tokens,
+          token,
+          scopeStack,
+          document,
+          isSureMatchWord,
+          write
+        )
+      ) {
+        i++;
       } else if (
         this.processInlineString(
           i,
           tokens,
           token,
           tokenConfig,
-          document,
+          text,
           regulate
         )
       ) {
@@ -710,6 +1358,12 @@ export class BracketParser {
         this.processMultilineString(i, tokens, token, tokenConfig, regulate)
       ) {
         i = this.skipMultilineString(i, tokens, token, tokenConfig, regulate);
+      } else if (
+        tokenConfig.regexLiterals &&
+        '/' === token &&
+        isRegexStart(text, tokens[i].index)
+      ) {
+        i = this.skipRegex(i, tokens, document);
       } else {
         i++;
       }
@@ -717,7 +1371,7 @@ export class BracketParser {
 
     // Process remaining scopes
     while (0 < scopeStack.length) {
-      write({ index: document.getText().length, token: '' });
+      write({ index: text.length, token: '' });
     }
 
     return result;
@@ -795,6 +1449,7 @@ export class BracketParser {
         },
         closing: tokenConfig.closingSymbolBrackets[index],
         headerMode: tokenConfig.symbolBracketsHeader[index],
+        inters: tokenConfig.symbolBracketsInters[index],
         items: [],
       });
       return true;
@@ -816,13 +1471,22 @@ export class BracketParser {
       isSureMatchWord(tokens[i])
     ) {
       const index = tokenConfig.openingWordBrackets.indexOf(token);
+      const position = document.positionAt(tokens[i].index);
+      if (
+        tokenConfig.wordBracketsStatementStart[index] &&
+        !this.isStatementStart(document, position)
+      ) {
+        return false;
+      }
+
       scopeStack.push({
         start: {
-          position: document.positionAt(tokens[i].index),
+          position,
           token: tokens[i].token,
         },
         closing: tokenConfig.closingWordBrackets[index],
         headerMode: tokenConfig.wordBracketsHeader[index],
+        inters: tokenConfig.wordBracketsInters[index],
         items: [],
       });
       return true;
@@ -830,6 +1494,57 @@ export class BracketParser {
     return false;
   }
 
+  /**
+   * True when only an operator or opening bracket precedes the position on its line
+   */
+  private static isStatementStart(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): boolean {
+    const lineHead = document
+      .getText(new vscode.Range(PositionUtils.nextLine(position, 0), position))
+      .trim();
+    return '' === lineHead || /[=(\[{,|&!;]$/.test(lineHead);
+  }
+
+  private static processInterBracket(
+    i: number,
+    tokens: any[],
+    token: string,
+    scopeStack: any[],
+    document: vscode.TextDocument,
+    isSureMatchWord: Function,
+    write: Function
+  ): boolean {
+    const scope = scopeStack[scopeStack.length - 1];
+    if (!scope || 0 > scope.inters.indexOf(token)) {
+      return false;
+    }
+
+    // Keyword inters lead their statement, unlike Ruby's `value rescue nil`
+    const position = document.positionAt(tokens[i].index);
+    if (
+      /^\w/.test(token) &&
+      (!isSureMatchWord(tokens[i]) || !this.isStatementStart(document, position))
+    ) {
+      return false;
+    }
+
+    // The current part ends at the inter and the next part starts there
+    write(tokens[i], true);
+    scopeStack.push({
+      start: {
+        position,
+        token: tokens[i].token,
+      },
+      closing: scope.closing,
+      headerMode: 'inner',
+      inters: scope.inters,
+      items: [],
+    });
+    return true;
+  }
+
   private static processClosingBracket(
     i: number,
     tokens: any[],
@@ -854,10 +1569,14 @@ export class BracketParser {
     tokens: any[],
     token: string,
     tokenConfig: any,
-    document: vscode.TextDocument,
+    text: string,
     regulate: Function
   ): boolean {
-    return 0 <= tokenConfig.openingInlineStrings.indexOf(token);
+    const index = tokenConfig.openingInlineStrings.indexOf(token);
+    return (
+      0 <= index &&
+      !(tokenConfig.inlineStringsNotAfterWord[index] && /\w/.test(text[tokens[i].index - 1] ?? ''))
+    );
   }
 
   private static skipInlineString(
@@ -914,6 +1633,31 @@ export class BracketParser {
     }
     return i;
   }
+
+  private static skipRegex(
+    i: number,
+    tokens: any[],
+    document: vscode.TextDocument
+  ): number {
+    const line = document.positionAt(tokens[i].index).line;
+    let inClass = false;
+    while (++i < tokens.length) {
+      const token = tokens[i].token;
+      // Regex literals never span lines, so this was a division after all
+      if (line !== document.positionAt(tokens[i].index).line) {
+        break;
+      }
+      if (inClass) {
+        inClass = ']' !== token;
+      } else if ('[' === token) {
+        inClass = true;
+      } else if ('/' === token) {
+        ++i;
+        break;
+      }
+    }
+    return i;
+  }
 }
 
 // ============================================================================
@@ -964,7 +1708,7 @@ export class BracketHeaderGenerator {
       }
 
       // NEW: Apply rules filtering to remove excluded symbols
-      result = filterContent(result);
+      result = filterContent(result, document.languageId);
 
       // NEW: Apply language-specific formatting before length truncation
       result = this.languageFormatter.formatContext(
@@ -1018,7 +1762,9 @@ export class BracketHeaderGenerator {
     regulateHeader: (text: string) => string,
     isValidHeader: (text: string) => boolean
   ): string | null {
-    const languageConfiguration = BracketLynxConfig.languageConfiguration;
+    const languageConfiguration = BracketLynxConfig.getLanguageSpecificConfig(
+      document.languageId
+    );
     const terminators = languageConfiguration.terminators ?? [];
     const topLimit =
       context.previousEntry?.end.position ??
@@ -1107,129 +1853,95 @@ export class BracketHeaderGenerator {
 // DECORATION GENERATION
 // ============================================================================
 
+export interface DecorationTemplateValues {
+  prefix: string;
+  // 1-based first and last line of the scope
+  start: number;
+  end: number;
+  // 1 for a top-level scope
+  depth: number;
+  header: string;
+  kind: string;
+  symbol: string;
+  // Number of nested scopes
+  children: number;
+}
+
 export class BracketDecorationGenerator {
   /**
-   * Check if a range is inside a comment
+   * Fill the `bracketLynx.format` template. Unknown placeholders are left as written,
+   * and empty ones leave no double spaces behind.
    */
-  private static isRangeInComment(
-    document: vscode.TextDocument,
-    range: vscode.Range
-  ): boolean {
-    // Fast path for JSON files - they don't support comments
-    if (document.languageId === 'json') {
-      return false;
-    }
-
-    const languageConfiguration = BracketLynxConfig.getLanguageSpecificConfig(document.languageId);
-    const text = document.getText();
-    
-    // Get comment patterns for the language
-    const blockComments = languageConfiguration.comments?.block || [];
-    const lineComments = languageConfiguration.comments?.line || [];
-    
-    // Early exit if no comment patterns are defined
-    if (blockComments.length === 0 && lineComments.length === 0) {
-      return false;
-    }
-    
-    // Check if range is inside any comment
-    const startOffset = document.offsetAt(range.start);
-    const endOffset = document.offsetAt(range.end);
-    
-    // Check line comments first (more common and faster)
-    for (const lineComment of lineComments) {
-      const lines = text.split('\n');
-      for (let lineIndex = range.start.line; lineIndex <= range.end.line; lineIndex++) {
-        if (lineIndex >= lines.length) {break;}
-        
-        const line = lines[lineIndex];
-        const commentIndex = line.indexOf(lineComment);
-        if (commentIndex !== -1) {
-          const lineStartOffset = document.offsetAt(new vscode.Position(lineIndex, 0));
-          const commentStartOffset = lineStartOffset + commentIndex;
-          
-          // For single line ranges, check if the range start is after the comment
-          if (range.start.line === range.end.line) {
-            if (startOffset >= commentStartOffset) {
-              return true;
-            }
-          } else {
-            // For multi-line ranges, check if any part is commented
-            const lineEndOffset = document.offsetAt(new vscode.Position(lineIndex, line.length));
-            if ((startOffset >= commentStartOffset && startOffset <= lineEndOffset) ||
-                (endOffset >= commentStartOffset && endOffset <= lineEndOffset) ||
-                (startOffset <= commentStartOffset && endOffset >= lineEndOffset)) {
-              return true;
-            }
-          }
-        }
-      }
-    }
-    
-    // Check block comments with improved logic
-    for (const blockComment of blockComments) {
-      const openPattern = blockComment.opening;
-      const closePattern = blockComment.closing;
-      
-      let searchIndex = 0;
-      while (searchIndex < text.length) {
-        const openIndex = text.indexOf(openPattern, searchIndex);
-        if (openIndex === -1 || openIndex > endOffset) {
-          break;
-        }
-        
-        const closeIndex = text.indexOf(closePattern, openIndex + openPattern.length);
-        const commentEndOffset = closeIndex === -1 ? text.length : closeIndex + closePattern.length;
-        
-        // Check if our range overlaps with this block comment
-        if (startOffset < commentEndOffset && endOffset > openIndex) {
-          // Additional check: ensure the range is actually inside the comment, not just touching it
-          if (startOffset >= openIndex && (closeIndex === -1 || endOffset <= commentEndOffset)) {
-            return true;
-          }
+  static formatDecorationText(
+    values: DecorationTemplateValues,
+    template: string = BracketLynxConfig.format
+  ): string {
+    const placeholders: Record<string, string | number> = {
+      ...values,
+      lines: values.end - values.start + 1,
+    };
+    return template
+      .replace(/\{(\w+)\}( ?)/g, (match, name: string, space: string) => {
+        if (!(name in placeholders)) {
+          return match;
         }
-        
-        searchIndex = commentEndOffset;
-      }
-    }
-    
-    return false;
+        const value = String(placeholders[name]);
+        return value ? value + space : '';
+      })
+      .replace(/ {2,}/g, ' ');
   }
 
   static getBracketDecorationSource(
     document: vscode.TextDocument,
-    brackets: BracketEntry[]
+    brackets: BracketEntry[],
+    symbolHeaders?: SymbolHeaderResolver,
+    window?: LineWindow
   ): BracketDecorationSource[] {
+    return TimeSlicer.runSync(this.getBracketDecorationSourceInSlices(document, brackets, symbolHeaders, window));
+  }
+
+  /**
+   * getBracketDecorationSource as a pass that yields after each scope
+   */
+  static *getBracketDecorationSourceInSlices(
+    document: vscode.TextDocument,
+    brackets: BracketEntry[],
+    symbolHeaders?: SymbolHeaderResolver,
+    window?: LineWindow
+  ): SlicedWork<BracketDecorationSource[]> {
     const prefix = BracketLynxConfig.prefix;
     const unmatchBracketsPrefix = BracketLynxConfig.unmatchBracketsPrefix;
     const minBracketScopeLines = BracketLynxConfig.minBracketScopeLines;
     const maxDecorationsPerFile = BracketLynxConfig.maxDecorationsPerFile;
-    const result: BracketDecorationSource[] = [];
-
-    const getLineNumbers = (entry: BracketEntry): string => {
-      const startLine = entry.start.position.line + 1;
-      const endLine = entry.end.position.line + 1;
-      return `#${startLine}-${endLine} `;
-    };
+    const format = BracketLynxConfig.format;
+    const result: { source: BracketDecorationSource; entry: BracketEntry }[] = [];
+
+    const scanner = function* (
+      document: vscode.TextDocument,
+      context: BracketContext,
+      depth: number
+    ): SlicedWork<void> {
+      yield;
+      // Scopes entirely outside the window, and everything inside them, are left for later
+      if (
+        window &&
+        (context.entry.end.position.line < window.start || window.end < context.entry.start.position.line)
+      ) {
+        return;
+      }
 
-    const scanner = (context: BracketContext) => {
       const lineSpan =
         context.entry.end.position.line - context.entry.start.position.line + 1;
       const meetsMinLines = minBracketScopeLines <= lineSpan;
 
-      // Check if it's a control flow block (exception to minimum lines rule)
-      let isControlFlowException = false;
-      if (!meetsMinLines) {
-        const startLine = context.entry.start.position.line;
-        const endLine = context.entry.end.position.line;
-        const content = document.getText(
-          new vscode.Range(startLine, 0, endLine + 1, 0)
-        );
-        isControlFlowException = containsControlFlowKeyword(content);
-      }
+      // Control flow blocks are an exception to the minimum lines rule
+      const kind = ScopeClassifier.kindOf(document, context.entry);
+      const isControlFlowException = !meetsMinLines && kind === 'control-flow';
 
       if (meetsMinLines || isControlFlowException) {
         if (
+          // Only closings inside the window are decorated
+          (!window || context.entry.end.position.line <= window.end) &&
           // Skip if next block starts on same line as closing
           context.entry.end.position.line <
             (context.nextEntry?.start.position.line ??
@@ -1246,89 +1958,93 @@ export class BracketDecorationGenerator {
             context.entry.end.position
           );
 
-          // Check if the bracket range is inside a comment
-          const bracketRange = new vscode.Range(
-            context.entry.start.position,
-            context.entry.end.position
-          );
-
-          if (!this.isRangeInComment(document, bracketRange)) {
-            const bracketHeader = BracketHeaderGenerator.getBracketHeader(
-              document,
-              context
+          // Parsers skip brackets their state places in a comment or string, so every entry is code
+          const symbol = symbolHeaders?.(context.entry);
+          const bracketHeader =
+            symbol?.header ??
+            BracketHeaderGenerator.getBracketHeader(document, context);
+          if (0 < bracketHeader.length) {
+            const decorationText = BracketDecorationGenerator.formatDecorationText(
+              {
+                prefix: context.entry.isUnmatchBrackets ? unmatchBracketsPrefix : prefix,
+                start: context.entry.start.position.line + 1,
+                end: context.entry.end.position.line + 1,
+                depth,
+                header: bracketHeader,
+                kind: symbol?.kind ?? kind,
+                symbol: symbol?.name ?? '',
+                children: context.entry.items.length,
+              },
+              format
             );
-            if (0 < bracketHeader.length) {
-              const lineNumbers = getLineNumbers(context.entry);
-              const decorationText = `${
-                context.entry.isUnmatchBrackets ? unmatchBracketsPrefix : prefix
-              }${lineNumbers}•${bracketHeader}`;
 
-              result.push({
+            result.push({
+              source: {
                 range: decorationRange,
                 bracketHeader: decorationText,
-              });
-            }
+                kind,
+                depth,
+                isUnmatchBrackets: context.entry.isUnmatchBrackets,
+                openingLine: context.entry.start.position.line,
+              },
+              entry: context.entry,
+            });
           }
         }
-        context.entry.items.map((entry, index, array) =>
-          scanner({
-            parentEntry: context.entry,
-            previousEntry: array[index - 1],
-            entry,
-            nextEntry: array[index + 1],
-          })
-        );
+        for (const [index, entry] of context.entry.items.entries()) {
+          yield* scanner(
+            document,
+            {
+              parentEntry: context.entry,
+              previousEntry: context.entry.items[index - 1],
+              entry,
+              nextEntry: context.entry.items[index + 1],
+            },
+            depth + 1
+          );
+        }
       }
     };
 
-    brackets.map((entry, index, array) =>
-      scanner({
-        parentEntry: undefined,
-        previousEntry: array[index - 1],
-        entry,
-        nextEntry: array[index + 1],
-      })
-    );
+    // Scopes of a script or style block read their headers in that block's language
+    const documentFor = EmbeddedRegionParser.getDocumentResolver(document);
+    for (const [index, entry] of brackets.entries()) {
+      yield* scanner(
+        documentFor(entry),
+        {
+          parentEntry: undefined,
+          previousEntry: brackets[index - 1],
+          entry,
+          nextEntry: brackets[index + 1],
+        },
+        1
+      );
+    }
 
     // Apply final decoration limit if performance filters are enabled
+    // Focus mode shows a handful at a time, so it keeps every scope to pick from
     if (
       BracketLynxConfig.enablePerformanceFilters &&
+      !FocusMode.isEnabled &&
       result.length > maxDecorationsPerFile
     ) {
 
 
-      // Prioritize unmatched brackets and larger brackets
-      const prioritized = result.sort((a, b) => {
-        // Extract line numbers from bracket headers
-        const aMatch = a.bracketHeader.match(/#(\d+)-(\d+)/);
-        const bMatch = b.bracketHeader.match(/#(\d+)-(\d+)/);
-
-        if (aMatch && bMatch) {
-          const aSpan = parseInt(bMatch[2]) - parseInt(bMatch[1]);
-          const bSpan = parseInt(bMatch[2]) - parseInt(bMatch[1]);
-
-          // Prioritize unmatched brackets
-          const aIsUnmatched = a.bracketHeader.includes('❌');
-          const bIsUnmatched = b.bracketHeader.includes('❌');
-
-          if (aIsUnmatched && !bIsUnmatched) {
-            return -1;
-          }
-          if (!aIsUnmatched && bIsUnmatched) {
-            return 1;
-          }
-
-          // Then by size
-          return bSpan - aSpan;
-        }
-
-        return 0;
-      });
+      // Prioritize unmatched brackets, then declarations, then larger brackets
+      const lineSpan = (entry: BracketEntry) => entry.end.position.line - entry.start.position.line;
+      const isDeclaration = (entry: BracketEntry) =>
+        entry.kind === 'class' || entry.kind === 'function' || entry.kind === 'type';
+      const prioritized = result.sort(
+        (a, b) =>
+          Number(b.entry.isUnmatchBrackets) - Number(a.entry.isUnmatchBrackets) ||
+          Number(isDeclaration(b.entry)) - Number(isDeclaration(a.entry)) ||
+          lineSpan(b.entry) - lineSpan(a.entry)
+      );
 
-      return prioritized.slice(0, maxDecorationsPerFile);
+      return prioritized.slice(0, maxDecorationsPerFile).map((i) => i.source);
     }
 
-    return result;
+    return result.map((i) => i.source);
   }
 }
 
@@ -1339,13 +2055,27 @@ export class BracketDecorationGenerator {
 export class BracketLynx {
   private static lastUpdateStamp = new Map<vscode.TextEditor, number>();
   private static smartDebouncer = new SmartDebouncer();
+  // Queues updates with the others of the same editor, so an older parse never draws over a newer one
+  private static updateScheduler?: (textEditor: vscode.TextEditor) => void;
+
+  static setUpdateScheduler(scheduler: (textEditor: vscode.TextEditor) => void): void {
+    this.updateScheduler = scheduler;
+  }
+
+  /**
+   * Ask for the editor to be redrawn through the update queue
+   */
+  static requestUpdate(textEditor: vscode.TextEditor): void {
+    this.updateScheduler?.(textEditor);
+  }
 
-  static updateDecoration(textEditor: vscode.TextEditor) {
+  static async updateDecoration(
+    textEditor: vscode.TextEditor,
+    token?: vscode.CancellationToken
+  ): Promise<void> {
     // Check if extension is enabled globally and for this specific editor
     if (!isExtensionEnabled() || !isEditorEnabled(textEditor)) {
-      const editorCache = CacheManager.editorCache.get(textEditor);
-      editorCache?.dispose();
-      CacheManager.editorCache.delete(textEditor);
+      this.clearDecorations(textEditor);
       return;
     }
 
@@ -1356,62 +2086,192 @@ export class BracketLynx {
         textEditor.document.fileName
       )
     ) {
-      const editorCache = CacheManager.editorCache.get(textEditor);
-      editorCache?.dispose();
-      CacheManager.editorCache.delete(textEditor);
+      this.clearDecorations(textEditor);
       return;
     }
 
     const editorCache = CacheManager.editorCache.get(textEditor);
-    if ('none' !== BracketLynxConfig.mode) {
+    if (UpdateMode.canDecorate(textEditor.document)) {
       const isMuted = editorCache?.isMuted || false;
 
       if (isMuted) {
         editorCache?.dispose();
         editorCache?.setDirty();
       } else if (undefined === editorCache || editorCache.isDirty()) {
-        const bracketHeaderInformationDecoration =
-          vscode.window.createTextEditorDecorationType({
-            isWholeLine: true,
-          });
-
-        const options: vscode.DecorationOptions[] = [];
-        const color = BracketLynxConfig.color;
-
-        CacheManager.getDocumentCache(
-          textEditor.document
-        ).decorationSource.forEach((i) => {
-          // Apply content filtering to remove excluded symbols
-          const filteredContent = filterContent(i.bracketHeader);
-
-          // Only add decoration if content is not empty after filtering
-          if (filteredContent.trim().length > 0) {
-            options.push({
-              range: i.range,
-              renderOptions: {
-                after: {
-                  contentText: filteredContent,
-                  color,
-                },
-              },
-            });
-          }
-        });
-
-        CacheManager.getEditorCache(
-          textEditor
-        ).setBracketHeaderInformationDecoration(
-          bracketHeaderInformationDecoration
+        // Keep the current decorations until the parse for this version is ready, or has passed the visible lines
+        const documentCache = await CacheManager.getDocumentCache(
+          textEditor.document,
+          token,
+          this.createPartialRenderer(textEditor)
         );
+        if (!documentCache || token?.isCancellationRequested) {
+          return;
+        }
+
+        BracketDiagnostics.update(textEditor.document, documentCache.unfilteredBrackets);
+
+        const editorEntry = CacheManager.getEditorCache(textEditor);
+        editorEntry.renderedDocument = documentCache;
 
-        textEditor.setDecorations(bracketHeaderInformationDecoration, options);
+        // Inlay hints and CodeLens read the same decoration source through their providers
+        if (BracketLynxConfig.renderMode !== 'decoration') {
+          editorEntry.setDecorations(textEditor, new Map());
+          RenderModeProviders.refresh();
+          BracketLynxStatusBar.refresh();
+          return;
+        }
+
+        this.renderDecorations(textEditor, editorEntry);
       }
     } else {
-      editorCache?.dispose();
-      CacheManager.editorCache.delete(textEditor);
+      this.clearDecorations(textEditor);
     }
   }
 
+  /**
+   * First paint of an in-process parse that runs past its budget: once the scan has
+   * passed the visible lines, the scopes closed so far are drawn until the full parse replaces them
+   */
+  private static createPartialRenderer(
+    textEditor: vscode.TextEditor
+  ): ((progress: ParseProgress, symbolHeaders?: SymbolHeaderResolver) => void) | undefined {
+    if (BracketLynxConfig.renderMode !== 'decoration') {
+      return undefined;
+    }
+
+    let isRendered = false;
+    return (progress, symbolHeaders) => {
+      const document = textEditor.document;
+      const visibleRanges = textEditor.visibleRanges;
+      if (isRendered || visibleRanges.length === 0) {
+        return;
+      }
+      const window: LineWindow = {
+        start: Math.min(...visibleRanges.map((range) => range.start.line)),
+        end: Math.max(...visibleRanges.map((range) => range.end.line)),
+      };
+      if (progress.offset < document.offsetAt(new vscode.Position(window.end + 1, 0))) {
+        return;
+      }
+
+      isRendered = true;
+      const brackets = progress.brackets();
+      ScopeClassifier.classify(document, brackets);
+      const editorEntry = CacheManager.getEditorCache(textEditor);
+      editorEntry.renderedDocument = {
+        brackets,
+        unfilteredBrackets: brackets,
+        decorationSource: BracketDecorationGenerator.getBracketDecorationSource(document, brackets, symbolHeaders, window),
+        symbolHeaders,
+        version: document.version,
+      };
+      this.renderDecorations(textEditor, editorEntry);
+    };
+  }
+
+  /**
+   * The decoration sources an editor shows: built around its viewport in viewport mode,
+   * then narrowed by focus mode and by the off-screen-openings mode
+   */
+  static getShownSources(
+    document: vscode.TextDocument,
+    documentCache: DocumentDecorationCacheEntry,
+    textEditor?: vscode.TextEditor
+  ): BracketDecorationSource[] {
+    const window = textEditor && ViewportMode.getWindow(textEditor.visibleRanges);
+    let sources = DocumentDecorationCacheEntry.getDecorationSource(document, documentCache, window);
+    if (textEditor && FocusMode.isEnabled) {
+      sources = FocusMode.filterSources(sources, documentCache.brackets, textEditor.selections);
+    }
+    if (textEditor && ViewportMode.isOffscreenOpeningsOnly) {
+      sources = ViewportMode.filterOffscreenOpenings(sources, textEditor.visibleRanges);
+    }
+    return sources;
+  }
+
+  /**
+   * Draw the scopes the editor shows from its parsed document
+   */
+  private static renderDecorations(
+    textEditor: vscode.TextEditor,
+    editorCache: EditorDecorationCacheEntry
+  ): void {
+    const documentCache = editorCache.renderedDocument;
+    if (!documentCache) {
+      return;
+    }
+
+    const sources = this.getShownSources(textEditor.document, documentCache, textEditor);
+    editorCache.shownKey = this.getShownKey(sources);
+
+    const optionsByColor = new Map<string, vscode.DecorationOptions[]>();
+    const colorOf = getScopeColorResolver();
+    const renderSettings = RenderOptionsBuilder.getSettings();
+
+    sources.forEach((i) => {
+      // Apply content filtering to remove excluded symbols
+      const filteredContent = filterContent(i.bracketHeader, textEditor.document.languageId);
+
+      // Only add decoration if content is not empty after filtering
+      if (filteredContent.trim().length > 0) {
+        const color = colorOf(i);
+        const options = optionsByColor.get(color) ?? [];
+        options.push({
+          range: i.range,
+          renderOptions: {
+            after: RenderOptionsBuilder.build(filteredContent, renderSettings),
+          },
+        });
+        optionsByColor.set(color, options);
+      }
+    });
+
+    editorCache.setDecorations(textEditor, optionsByColor);
+    BracketLynxStatusBar.refresh();
+  }
+
+  /**
+   * Fast path for focus mode: a moved cursor re-filters the parse already shown, without reparsing
+   */
+  static onDidChangeTextEditorSelection(textEditor: vscode.TextEditor): void {
+    if (FocusMode.isEnabled) {
+      this.redrawShownSources(textEditor);
+    }
+  }
+
+  /**
+   * Fast path for viewport mode: scrolling builds and filters decorations for the new lines, without reparsing
+   */
+  static onDidChangeTextEditorVisibleRanges(textEditor: vscode.TextEditor): void {
+    if (ViewportMode.isEnabled) {
+      this.redrawShownSources(textEditor);
+    }
+  }
+
+  private static redrawShownSources(textEditor: vscode.TextEditor): void {
+    const editorCache = CacheManager.editorCache.get(textEditor);
+    const documentCache = editorCache?.renderedDocument;
+    if (!editorCache || !documentCache || editorCache.isMuted) {
+      return;
+    }
+
+    const shownKey = this.getShownKey(this.getShownSources(textEditor.document, documentCache, textEditor));
+    if (shownKey === editorCache.shownKey) {
+      return;
+    }
+
+    if (BracketLynxConfig.renderMode !== 'decoration') {
+      editorCache.shownKey = shownKey;
+      RenderModeProviders.refresh();
+    } else {
+      this.renderDecorations(textEditor, editorCache);
+    }
+  }
+
+  private static getShownKey(sources: BracketDecorationSource[]): string {
+    return sources.map((i) => `${i.range.end.line}:${i.range.end.character}`).join(',');
+  }
+
   static delayUpdateDecoration(textEditor: vscode.TextEditor): void {
     // Check if extension is enabled for this editor before processing
     if (!isExtensionEnabled() || !isEditorEnabled(textEditor)) {
@@ -1426,7 +2286,7 @@ export class BracketLynx {
       this.smartDebouncer.debounce(
         editorKey,
         () => {
-          this.updateDecoration(textEditor);
+          this.requestUpdate(textEditor);
         },
         textEditor.document,
         isActiveEditor
@@ -1442,6 +2302,9 @@ export class BracketLynx {
     const editorCache = CacheManager.editorCache.get(textEditor);
     editorCache?.dispose();
     CacheManager.editorCache.delete(textEditor);
+    BracketDiagnostics.clear(textEditor.document);
+    RenderModeProviders.refresh();
+    BracketLynxStatusBar.refresh();
   }
 
   // ============================================================================
@@ -1452,38 +2315,6 @@ export class BracketLynx {
     return document.offsetAt(document.lineAt(document.lineCount - 1).range.end);
   }
 
-  static updateDecorationByDocument(document: vscode.TextDocument): void {
-    // Check if extension is enabled for this document
-    if (!isExtensionEnabled() || !isDocumentEnabled(document)) {
-      return;
-    }
-
-    // Check if language is supported by rules
-    if (!shouldProcessFileConfig(document.languageId, document.fileName)) {
-      return;
-    }
-
-    vscode.window.visibleTextEditors
-      .filter((i) => i.document === document)
-      .forEach((i) => this.updateDecoration(i));
-  }
-
-  static delayUpdateDecorationByDocument(document: vscode.TextDocument): void {
-    // Check if extension is enabled for this document
-    if (!isExtensionEnabled() || !isDocumentEnabled(document)) {
-      return;
-    }
-
-    // Check if language is supported by rules
-    if (!shouldProcessFileConfig(document.languageId, document.fileName)) {
-      return;
-    }
-
-    vscode.window.visibleTextEditors
-      .filter((i) => i.document === document)
-      .forEach((i) => this.delayUpdateDecoration(i));
-  }
-
   static updateAllDecoration(): void {
     if (!isExtensionEnabled()) {
       return;
@@ -1491,7 +2322,7 @@ export class BracketLynx {
 
     vscode.window.visibleTextEditors
       .filter((editor) => isEditorEnabled(editor))
-      .forEach((i) => this.updateDecoration(i));
+      .forEach((i) => this.requestUpdate(i));
   }
 
   static onDidChangeConfiguration(): void {
@@ -1506,39 +2337,11 @@ export class BracketLynx {
 
     CacheManager.clearAllDecorationCache();
     this.updateAllDecoration();
-
-
+    RenderModeProviders.refresh();
   }
 
   static onDidChangeActiveTextEditor(): void {
     CacheManager.clearAllDecorationCache();
-    const activeEditor = vscode.window.activeTextEditor;
-    if (activeEditor && isExtensionEnabled() && isEditorEnabled(activeEditor)) {
-      this.delayUpdateDecoration(activeEditor);
-    }
-  }
-
-  static onDidOpenTextDocument(document: vscode.TextDocument): void {
-    const mode = BracketLynxConfig.mode;
-    if (
-      isExtensionEnabled() &&
-      isDocumentEnabled(document) &&
-      shouldProcessFileConfig(document.languageId, document.fileName) &&
-      ('auto' === mode || 'on-save' === mode)
-    ) {
-      this.delayUpdateDecorationByDocument(document);
-    }
-  }
-
-  static onDidSaveTextDocument(document: vscode.TextDocument): void {
-    if (
-      isExtensionEnabled() &&
-      isDocumentEnabled(document) &&
-      shouldProcessFileConfig(document.languageId, document.fileName) &&
-      'on-save' === BracketLynxConfig.mode
-    ) {
-      this.updateDecorationByDocument(document);
-    }
   }
 
   static onDidChangeTextDocument(
@@ -1557,134 +2360,30 @@ export class BracketLynx {
 
     // Special handling for JSON files (no comment support needed)
     if (document.languageId === 'json') {
-      // For JSON files, always clear cache and update immediately for any change
+      // For JSON files, always clear cache for any change
       // This fixes the issue where decorations don't disappear when content is deleted
       CacheManager.clearAllDecorationCache();
-      
-      if ('auto' === BracketLynxConfig.mode) {
-        // Immediate update for JSON files to handle deletions properly
-        setTimeout(() => {
-          this.updateDecorationByDocument(document);
-        }, 10); // Very short delay for JSON changes
-      }
       return;
     }
 
-    // For non-JSON files, check if changes involve comment patterns for faster response
-    let hasCommentChanges = false;
-    let hasSignificantChanges = false;
-    
+    // Only this document is invalidated; its next parse splices the recorded edit
+    // into the cached bracket tree and falls back to a full pass when it must.
+    // The redraw itself is queued by the caller, with the editor's other updates.
     if (changes && changes.length > 0) {
-      const languageConfig = BracketLynxConfig.getLanguageSpecificConfig(document.languageId);
-      const lineComments = languageConfig.comments?.line || [];
-      const blockComments = languageConfig.comments?.block || [];
-      
-      for (const change of changes) {
-        const changeText = change.text;
-        const changeLength = change.rangeLength;
-        
-        // Check if the change involves comment syntax
-        const hasLineComment = lineComments.some(comment => 
-          changeText.includes(comment)
-        );
-        const hasBlockComment = blockComments.some(comment => 
-          changeText.includes(comment.opening) || changeText.includes(comment.closing)
-        );
-        
-        // Check for deletions that might remove comments
-        const isDeletion = changeLength > 0 && changeText === '';
-        
-        // Check for bracket-related changes
-        const hasBracketChanges = /[{}[\]()]/.test(changeText) || isDeletion;
-        
-        if (hasLineComment || hasBlockComment || isDeletion) {
-          hasCommentChanges = true;
-        }
-        
-        if (hasBracketChanges || hasLineComment || hasBlockComment || isDeletion) {
-          hasSignificantChanges = true;
-        }
-      }
-    }
-
-    // Always clear cache for comment changes or significant changes
-    if (hasCommentChanges || hasSignificantChanges) {
-      CacheManager.clearAllDecorationCache();
+      this.handleIncrementalChanges(document);
     } else {
-      // Try incremental parsing for minor changes
-      if (changes && changes.length > 0) {
-        this.handleIncrementalChanges(document, changes);
-      } else {
-        CacheManager.clearAllDecorationCache();
-      }
-    }
-
-    if ('auto' === BracketLynxConfig.mode) {
-      // Use immediate update for comment changes, delayed for others
-      if (hasCommentChanges) {
-        // Very short delay for comment changes to ensure immediate response
-        setTimeout(() => {
-          this.updateDecorationByDocument(document);
-        }, 15); // Reduced delay for comment changes
-      } else if (hasSignificantChanges) {
-        // Short delay for significant changes
-        setTimeout(() => {
-          this.updateDecorationByDocument(document);
-        }, 50);
-      } else {
-        this.delayUpdateDecorationByDocument(document);
-      }
+      CacheManager.clearAllDecorationCache();
     }
   }
 
   /**
    * Handle incremental document changes
    */
-  private static handleIncrementalChanges(
-    document: vscode.TextDocument,
-    changes: readonly vscode.TextDocumentContentChangeEvent[]
-  ): void {
-    try {
-      // Use parser exception manager
-      const optimizedParser = OptimizedBracketParser.getInstance();
-      if (optimizedParser.shouldUseOriginalParser(document)) {
-        
-        CacheManager.clearAllDecorationCache();
-        return;
-      }
-
-      // Use incremental parsing for other files
-      const existingCache = CacheManager.documentCache.get(document);
-
-      if (existingCache && existingCache.brackets) {
-        // Try incremental parsing
-        const incrementalResult = optimizedParser.parseIncremental(
-          document,
-          changes,
-          existingCache.brackets
-        );
-
-        // Update cache with incremental results
-        existingCache.brackets = incrementalResult.brackets;
-        existingCache.decorationSource =
-          BracketDecorationGenerator.getBracketDecorationSource(
-            document,
-            incrementalResult.brackets
-          );
-
-
-
-        return;
-      }
-    } catch (error) {
-      console.error(
-        'Bracket Lynx: Error in incremental parsing, falling back to full cache clear:',
-        error
-      );
-    }
-
-    // Fallback to full cache clear
-    CacheManager.clearAllDecorationCache();
+  private static handleIncrementalChanges(document: vscode.TextDocument): void {
+    // The edit is already recorded by the parsers, so dropping this document's
+    // entry is enough: the next update reparses only the damaged region, or the
+    // whole document on the original parser. Other documents keep their caches.
+    CacheManager.invalidateDocument(document);
   }
 
   /**
@@ -1731,15 +2430,16 @@ export class BracketLynx {
       editorCache?.dispose();
       CacheManager.editorCache.delete(editor);
     });
+    BracketDiagnostics.clearAll();
+    RenderModeProviders.refresh();
+    BracketLynxStatusBar.refresh();
   }
 
   /**
    * Clear decorations for a specific editor (used by toggle system)
    */
   static clearEditorDecorations(textEditor: vscode.TextEditor): void {
-    const editorCache = CacheManager.editorCache.get(textEditor);
-    editorCache?.dispose();
-    CacheManager.editorCache.delete(textEditor);
+    this.clearDecorations(textEditor);
   }
 
   /**
@@ -1763,7 +2463,7 @@ export class BracketLynx {
         .filter((editor) => isEditorEnabled(editor))
         .forEach((editor) => {
           // Force immediate update without debouncing for color changes
-          this.updateDecoration(editor);
+          this.requestUpdate(editor);
         });
     }, 50);
   }
@@ -1779,6 +2479,9 @@ export class BracketLynx {
     // Cleanup optimized parser
     const optimizedParser = OptimizedBracketParser.getInstance();
     optimizedParser.dispose();
+    ParseWorkerClient.getInstance().dispose();
+    BracketDiagnostics.dispose();
+    UpdateMode.dispose();
 
     // Advanced cache cleanup is handled automatically
   }
@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import { BracketLynxConfig } from './lens';
+
+// ============================================================================
+// 🖌️ RENDER OPTIONS - How decoration text is drawn, shared by every decorator
+// ============================================================================
+
+export interface RenderSettings {
+  fontStyle: string;
+  fontWeight?: string;
+  textDecoration?: string;
+  // 0 to 1
+  opacity?: number;
+  margin?: string;
+  backgroundColor?: string;
+  border?: string;
+  borderRadius?: string;
+  padding?: string;
+  // Longest decoration text in characters, 0 for no limit
+  maxWidth: number;
+}
+
+export class RenderOptionsBuilder {
+  /**
+   * `bracketLynx.render` together with `bracketLynx.fontStyle`, read once per batch of decorations
+   */
+  static getSettings(): RenderSettings {
+    const render = BracketLynxConfig.render;
+    const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+    const opacity = typeof render.opacity === 'number' ? Math.max(0, Math.min(1, render.opacity)) : undefined;
+    const maxWidth = typeof render.maxWidth === 'number' ? Math.max(0, Math.floor(render.maxWidth)) : 0;
+
+    // `bracketLynx.fontStyle` offers "bold", which is a weight in CSS
+    const fontStyle = BracketLynxConfig.fontStyle;
+    const isBold = fontStyle === 'bold';
+
+    return {
+      fontStyle: isBold ? 'normal' : fontStyle,
+      fontWeight: text(render.fontWeight) ?? (isBold ? 'bold' : undefined),
+      textDecoration: text(render.textDecoration),
+      opacity,
+      margin: text(render.margin),
+      backgroundColor: text(render.backgroundColor),
+      border: text(render.border),
+      borderRadius: text(render.borderRadius),
+      padding: text(render.padding),
+      maxWidth,
+    };
+  }
+
+  /**
+   * The `after` attachment for one decoration. Color is left to the decoration type.
+   */
+  static build(
+    contentText: string,
+    settings: RenderSettings = this.getSettings()
+  ): vscode.ThemableDecorationAttachmentRenderOptions {
+    const options: vscode.ThemableDecorationAttachmentRenderOptions = {
+      contentText: this.truncate(contentText, settings.maxWidth),
+      fontStyle: settings.fontStyle,
+    };
+    if (settings.fontWeight) {
+      options.fontWeight = settings.fontWeight;
+    }
+    if (settings.margin) {
+      options.margin = settings.margin;
+    }
+    if (settings.backgroundColor) {
+      options.backgroundColor = settings.backgroundColor;
+    }
+    if (settings.border) {
+      options.border = settings.border;
+    }
+
+    // Attachments have no opacity, radius or padding options; they ride along in the text-decoration CSS
+    const extraCss = [
+      settings.opacity !== undefined ? `opacity: ${settings.opacity}` : undefined,
+      settings.borderRadius ? `border-radius: ${settings.borderRadius}` : undefined,
+      settings.padding ? `padding: ${settings.padding}` : undefined,
+    ].filter((declaration): declaration is string => declaration !== undefined);
+    if (settings.textDecoration || extraCss.length > 0) {
+      options.textDecoration = [settings.textDecoration ?? 'none', ...extraCss].join('; ');
+    }
+
+    return options;
+  }
+
+  static truncate(text: string, maxWidth: number): string {
+    return 0 < maxWidth && maxWidth < text.length ? text.slice(0, maxWidth - 1).trimEnd() + '…' : text;
+  }
+}
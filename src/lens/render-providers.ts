@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import { BracketLynx, BracketLynxConfig, CacheManager, shouldProcessFileConfig } from './lens';
+import { filterContent } from './lens-rules';
+import { RenderOptionsBuilder } from './render-options';
+import { UpdateMode } from './update-mode';
+import { isDocumentEnabled, isExtensionEnabled } from '../actions/toggle';
+
+// ============================================================================
+// 🧩 RENDER PROVIDERS - Inlay hints and CodeLens fed by the decoration source
+// ============================================================================
+
+export type RenderMode = 'decoration' | 'inlayHint' | 'codeLens';
+
+interface RenderSource {
+  range: vscode.Range;
+  text: string;
+}
+
+/**
+ * The decoration source of a document, if it should be shown in the given mode
+ */
+async function getRenderSources(
+  document: vscode.TextDocument,
+  mode: RenderMode,
+  token: vscode.CancellationToken
+): Promise<RenderSource[]> {
+  if (
+    BracketLynxConfig.renderMode !== mode ||
+    !UpdateMode.canDecorate(document) ||
+    !isExtensionEnabled() ||
+    !isDocumentEnabled(document) ||
+    !shouldProcessFileConfig(document.languageId, document.fileName)
+  ) {
+    return [];
+  }
+
+  const documentCache = await CacheManager.getDocumentCache(document, token);
+  if (!documentCache || token.isCancellationRequested) {
+    return [];
+  }
+
+  // Focus and viewport modes follow the editor showing the document
+  const editor = vscode.window.visibleTextEditors.find((i) => i.document === document);
+  const { maxWidth } = RenderOptionsBuilder.getSettings();
+  return BracketLynx.getShownSources(document, documentCache, editor)
+    .map((source) => ({
+      range: source.range,
+      text: RenderOptionsBuilder.truncate(filterContent(source.bracketHeader, document.languageId), maxWidth),
+    }))
+    .filter((source) => source.text.trim().length > 0);
+}
+
+export class BracketInlayHintsProvider implements vscode.InlayHintsProvider {
+  constructor(readonly onDidChangeInlayHints: vscode.Event<void>) {}
+
+  async provideInlayHints(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    token: vscode.CancellationToken
+  ): Promise<vscode.InlayHint[]> {
+    const sources = await getRenderSources(document, 'inlayHint', token);
+    return sources
+      .filter((source) => range.start.line <= source.range.end.line && source.range.end.line <= range.end.line)
+      .map((source) => {
+        // Right after the closing bracket, in the editor's inlay hint font
+        const hint = new vscode.InlayHint(source.range.end, source.text.trim());
+        hint.paddingLeft = true;
+        return hint;
+      });
+  }
+}
+
+export class BracketCodeLensProvider implements vscode.CodeLensProvider {
+  constructor(readonly onDidChangeCodeLenses: vscode.Event<void>) {}
+
+  async provideCodeLenses(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CodeLens[]> {
+    const sources = await getRenderSources(document, 'codeLens', token);
+    // Shown above the closing bracket's line; the title is informational, so there is no command to run
+    return sources.map(
+      (source) => new vscode.CodeLens(source.range, { title: source.text.trim(), command: '' })
+    );
+  }
+}
+
+export class RenderModeProviders {
+  private static changeEmitter?: vscode.EventEmitter<void>;
+
+  static register(): vscode.Disposable {
+    this.changeEmitter ??= new vscode.EventEmitter<void>();
+    const emitter = this.changeEmitter;
+    return vscode.Disposable.from(
+      vscode.languages.registerInlayHintsProvider('*', new BracketInlayHintsProvider(emitter.event)),
+      vscode.languages.registerCodeLensProvider('*', new BracketCodeLensProvider(emitter.event)),
+      {
+        dispose: () => {
+          emitter.dispose();
+          this.changeEmitter = undefined;
+        },
+      }
+    );
+  }
+
+  /**
+   * Ask the editor to request hints and lenses again, after a parse or a settings change
+   */
+  static refresh(): void {
+    this.changeEmitter?.fire();
+  }
+}
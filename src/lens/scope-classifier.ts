@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import type { BracketEntry, ScopeKind } from './lens';
+import { EmbeddedRegionParser } from './embedded-parser';
+
+// ============================================================================
+// 🏷️ SCOPE CLASSIFIER - What each scope is, decided once after parsing
+// ============================================================================
+
+const CSS_LANGUAGES = new Set(['css', 'scss', 'less', 'sass', 'stylus']);
+const DATA_LANGUAGES = new Set(['json', 'jsonc', 'yaml']);
+const JSX_LANGUAGES = new Set(['javascript', 'javascriptreact', 'typescriptreact']);
+
+// Opening keywords of word brackets and indentation blocks
+const FUNCTION_WORDS = new Set(['def', 'function', 'fn', 'func', 'sub', 'lambda']);
+const CLASS_WORDS = new Set(['class', 'module', 'struct', 'trait', 'impl', 'namespace']);
+const CONTROL_WORDS = new Set([
+  'if', 'unless', 'elsif', 'elif', 'elseif', 'else', 'while', 'until', 'for', 'foreach', 'repeat',
+  'case', 'when', 'in', 'select', 'switch', 'match', 'try', 'catch', 'except', 'finally', 'rescue',
+  'ensure', 'with',
+]);
+
+// Text in front of a `{`
+const CONTROL_HEADER_PATTERN =
+  /^(?:\}\s*)?(?:if|else|elif|elseif|for|foreach|while|do|switch|try|catch|finally|with|unless|loop|match|when|select|case\b.*:|default\s*:)(?:\W|$)/;
+const TYPE_HEADER_PATTERN = /(?:^|\s)(?:interface|enum)\s|(?:^|\s)type\s+\w+.*=\s*$/;
+const CLASS_HEADER_PATTERN = /(?:^|\s)(?:class|struct|trait|impl|namespace|module)(?:\s|$)/;
+const FUNCTION_HEADER_PATTERN = /=>\s*$|\)\s*(?::\s*[^=]*)?$|(?:^|\s)(?:function|func|fn|def)\b/;
+const OBJECT_HEADER_PATTERN = /(?:[=:(,[?]|\breturn|\bdefault|\?\?|\|\||&&)\s*$/;
+
+// Text in front of a `(`
+const CONTROL_CALL_PATTERN = /(?:^|[\s}])(?:if|elif|elseif|for|foreach|while|switch|catch|with|unless)\s*$/;
+const SIGNATURE_PATTERN = /(?:^|\s)(?:function|func|fn|def)\b/;
+const CALLEE_PATTERN = /[\w$)\]>]\s*$/;
+
+export class ScopeClassifier {
+  /**
+   * Attach a kind to every entry. Scopes of embedded regions are read in their region's language.
+   */
+  static classify(document: vscode.TextDocument, brackets: BracketEntry[]): void {
+    const documentFor = EmbeddedRegionParser.getDocumentResolver(document);
+    const visit = (regionDocument: vscode.TextDocument, entries: BracketEntry[]) =>
+      entries.forEach((entry) => {
+        entry.kind = this.getKind(regionDocument, entry);
+        visit(regionDocument, entry.items);
+      });
+    brackets.forEach((entry) => visit(documentFor(entry), [entry]));
+  }
+
+  /**
+   * The entry's kind, classifying it now if no pass has reached it yet
+   */
+  static kindOf(document: vscode.TextDocument, entry: BracketEntry): ScopeKind {
+    return (entry.kind ??= this.getKind(document, entry));
+  }
+
+  static getKind(document: vscode.TextDocument, entry: BracketEntry): ScopeKind {
+    const token = entry.start.token.toLowerCase();
+    const line = document.lineAt(entry.start.position.line).text;
+    const before = line.slice(0, entry.start.position.character).trim();
+
+    if (entry.end.token === '' && !entry.isUnmatchBrackets) {
+      return this.getIndentationKind(document, entry, line);
+    }
+    if (/^[\\\w]/.test(token)) {
+      return this.getWordKind(token, before);
+    }
+
+    switch (token) {
+      case '{':
+        return this.getBraceKind(document, entry, before);
+      case '(':
+        return this.getParenthesisKind(document, entry, before, line);
+      case '[':
+        return 'array';
+      default:
+        return 'block';
+    }
+  }
+
+  // ============================================================================
+  // 🔧 CLASSIFICATION HELPERS
+  // ============================================================================
+
+  private static getWordKind(token: string, before: string): ScopeKind {
+    const word = token.replace(/^\\/, '');
+    if (FUNCTION_WORDS.has(word)) {
+      return 'function';
+    }
+    if (CLASS_WORDS.has(word)) {
+      return 'class';
+    }
+    if (CONTROL_WORDS.has(word)) {
+      return 'control-flow';
+    }
+    // `do` is the body of a loop when the line starts with one, and a plain block otherwise
+    if (word === 'do' && CONTROL_WORDS.has(before.split(/\s+/)[0]?.toLowerCase())) {
+      return 'control-flow';
+    }
+    return 'block';
+  }
+
+  private static getIndentationKind(document: vscode.TextDocument, entry: BracketEntry, line: string): ScopeKind {
+    const header = line.trim();
+    if (document.languageId === 'yaml') {
+      const nextLine = entry.start.position.line + 1 < document.lineCount
+        ? document.lineAt(entry.start.position.line + 1).text.trim()
+        : '';
+      return nextLine.startsWith('-') ? 'array' : 'object';
+    }
+
+    const firstWord = header.replace(/^async\s+/, '').split(/[\s:(]/)[0];
+    if (FUNCTION_WORDS.has(firstWord)) {
+      return 'function';
+    }
+    if (CLASS_WORDS.has(firstWord)) {
+      return 'class';
+    }
+    if (CONTROL_WORDS.has(firstWord)) {
+      return 'control-flow';
+    }
+    return 'block';
+  }
+
+  private static getBraceKind(document: vscode.TextDocument, entry: BracketEntry, before: string): ScopeKind {
+    if (CSS_LANGUAGES.has(document.languageId)) {
+      return 'css-rule';
+    }
+    if (DATA_LANGUAGES.has(document.languageId)) {
+      return 'object';
+    }
+
+    // An opening brace on its own line belongs to the line above
+    const header =
+      before || entry.start.position.line === 0
+        ? before
+        : document.lineAt(entry.start.position.line - 1).text.trim();
+
+    if (CONTROL_HEADER_PATTERN.test(header)) {
+      return 'control-flow';
+    }
+    if (TYPE_HEADER_PATTERN.test(header)) {
+      return 'type';
+    }
+    if (CLASS_HEADER_PATTERN.test(header)) {
+      return 'class';
+    }
+    if (FUNCTION_HEADER_PATTERN.test(header)) {
+      return 'function';
+    }
+    if (OBJECT_HEADER_PATTERN.test(header)) {
+      return 'object';
+    }
+    return 'block';
+  }
+
+  private static getParenthesisKind(
+    document: vscode.TextDocument,
+    entry: BracketEntry,
+    before: string,
+    line: string
+  ): ScopeKind {
+    if (JSX_LANGUAGES.has(document.languageId)) {
+      // `return (` usually puts its element on the next line
+      const after = line.slice(entry.start.position.character + 1).trim();
+      const content = after === '' && entry.start.position.line + 1 < document.lineCount
+        ? document.lineAt(entry.start.position.line + 1).text.trim()
+        : after;
+      if (content.startsWith('<')) {
+        return 'jsx-element';
+      }
+    }
+
+    if (CONTROL_CALL_PATTERN.test(before)) {
+      return 'control-flow';
+    }
+    if (SIGNATURE_PATTERN.test(before)) {
+      return 'function';
+    }
+    if (CALLEE_PATTERN.test(before)) {
+      return 'call';
+    }
+    return 'block';
+  }
+}
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import { BracketEntry, BracketLynxConfig } from './lens';
+
+// ============================================================================
+// 🧭 SYMBOL HEADERS - Scope names from the language's DocumentSymbol provider
+// ============================================================================
+
+export interface ResolvedSymbol {
+  // Kind and qualified name, e.g. `class UserService` or `UserService.findById`
+  header: string;
+  // Lowercase SymbolKind name, e.g. `method`
+  kind: string;
+  name: string;
+}
+
+// Returns the symbol a scope ends with, or undefined to fall back to the text heuristics
+export type SymbolHeaderResolver = (entry: BracketEntry) => ResolvedSymbol | undefined;
+
+interface ScopeSymbol extends ResolvedSymbol {
+  range: vscode.Range;
+}
+
+// Language servers still starting up should not hold back the decorations
+const SYMBOL_REQUEST_TIMEOUT = 1500;
+
+export class DocumentSymbolHeaders {
+  /**
+   * Ask the document's symbol provider for its symbols. Undefined when headers come
+   * from text only, or no provider answered in time.
+   */
+  static async getResolver(document: vscode.TextDocument): Promise<SymbolHeaderResolver | undefined> {
+    if (BracketLynxConfig.headerSource !== 'symbols') {
+      return undefined;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const symbols = await Promise.race([
+        vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined>(
+          'vscode.executeDocumentSymbolProvider',
+          document.uri
+        ),
+        new Promise<undefined>((resolve) => {
+          timer = setTimeout(() => resolve(undefined), SYMBOL_REQUEST_TIMEOUT);
+        }),
+      ]);
+      return symbols && symbols.length > 0 ? this.createResolver(symbols) : undefined;
+    } catch (error) {
+      console.error('Error requesting document symbols:', error);
+      return undefined;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Match a scope to the innermost symbol whose range ends at its closing bracket.
+   * Indentation scopes have no closing token, so only their last line is compared.
+   */
+  static createResolver(symbols: readonly (vscode.DocumentSymbol | vscode.SymbolInformation)[]): SymbolHeaderResolver {
+    const symbolsByEndLine = new Map<number, ScopeSymbol[]>();
+    for (const symbol of this.flatten(symbols)) {
+      const line = symbol.range.end.line;
+      symbolsByEndLine.set(line, [...(symbolsByEndLine.get(line) ?? []), symbol]);
+    }
+
+    const maxBracketHeaderLength = BracketLynxConfig.maxBracketHeaderLength;
+    return (entry) => {
+      if (entry.isUnmatchBrackets) {
+        return undefined;
+      }
+
+      const match = (symbolsByEndLine.get(entry.end.position.line) ?? [])
+        .filter(
+          (symbol) =>
+            symbol.range.start.line <= entry.start.position.line &&
+            (entry.end.token === '' || symbol.range.end.isEqual(entry.end.position))
+        )
+        .reduce<ScopeSymbol | undefined>(
+          (innermost, symbol) =>
+            !innermost || innermost.range.start.isBefore(symbol.range.start) ? symbol : innermost,
+          undefined
+        );
+      if (!match) {
+        return undefined;
+      }
+
+      return {
+        header:
+          maxBracketHeaderLength < match.header.length
+            ? match.header.substring(0, maxBracketHeaderLength - 3) + '...'
+            : match.header,
+        kind: match.kind,
+        name: match.name,
+      };
+    };
+  }
+
+  private static flatten(
+    symbols: readonly (vscode.DocumentSymbol | vscode.SymbolInformation)[],
+    containers: string[] = []
+  ): ScopeSymbol[] {
+    return symbols.flatMap((symbol) => {
+      if (!('children' in symbol)) {
+        // Flat providers only name the direct container
+        const qualifiedName = symbol.containerName ? `${symbol.containerName}.${symbol.name}` : symbol.name;
+        return [this.createScopeSymbol(symbol.kind, qualifiedName, symbol.location.range)];
+      }
+
+      const qualifiedName = [...containers, symbol.name].join('.');
+      const children = this.flatten(
+        symbol.children,
+        this.isContainer(symbol.kind) ? [...containers, symbol.name] : containers
+      );
+      return [this.createScopeSymbol(symbol.kind, qualifiedName, symbol.range), ...children];
+    });
+  }
+
+  private static createScopeSymbol(kind: vscode.SymbolKind, qualifiedName: string, range: vscode.Range): ScopeSymbol {
+    const label = this.getKindLabel(kind);
+    return {
+      header: label ? `${label} ${qualifiedName}` : qualifiedName,
+      kind: vscode.SymbolKind[kind]?.toLowerCase() ?? '',
+      name: qualifiedName,
+      range,
+    };
+  }
+
+  /**
+   * Kinds named in the header; members are shown by their qualified name alone.
+   * A switch rather than a lookup table, so the parse worker can load this module.
+   */
+  private static getKindLabel(kind: vscode.SymbolKind): string | undefined {
+    switch (kind) {
+      case vscode.SymbolKind.Class:
+        return 'class';
+      case vscode.SymbolKind.Interface:
+        return 'interface';
+      case vscode.SymbolKind.Enum:
+        return 'enum';
+      case vscode.SymbolKind.Struct:
+        return 'struct';
+      case vscode.SymbolKind.Namespace:
+        return 'namespace';
+      case vscode.SymbolKind.Module:
+        return 'module';
+      case vscode.SymbolKind.Function:
+        return 'function';
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Types and namespaces qualify their members' names, e.g. `UserService.findById`
+   */
+  private static isContainer(kind: vscode.SymbolKind): boolean {
+    return kind !== vscode.SymbolKind.Function && this.getKindLabel(kind) !== undefined;
+  }
+}
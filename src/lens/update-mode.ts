@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+import { BracketLynxConfig } from './lens';
+
+// ============================================================================
+// ⏱️ UPDATE MODE - When decorations are drawn and refreshed
+// ============================================================================
+
+export type UpdateModeSetting = 'auto' | 'manual' | 'on-save' | 'off-while-typing';
+
+export class UpdateMode {
+  // How long typing must pause before "off-while-typing" shows decorations again
+  static readonly TYPING_PAUSE = 750;
+
+  // Documents decorated by the command in manual mode, until their next edit
+  private static decoratedDocuments = new Set<string>();
+  private static typingTimers = new Map<string, NodeJS.Timeout>();
+
+  static get setting(): UpdateModeSetting {
+    return BracketLynxConfig.mode;
+  }
+
+  /**
+   * Whether an edit schedules a new parse and redraw right away
+   */
+  static get refreshesOnEdit(): boolean {
+    return this.setting === 'auto';
+  }
+
+  /**
+   * Whether decorations may be drawn for the document right now
+   */
+  static canDecorate(document: vscode.TextDocument): boolean {
+    const key = document.uri.toString();
+    switch (this.setting) {
+      case 'manual':
+        return this.decoratedDocuments.has(key);
+      case 'off-while-typing':
+        return !this.typingTimers.has(key);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * The "Decorate Current File" command: in manual mode, the document stays decorated until it is edited
+   */
+  static requestDecoration(document: vscode.TextDocument): void {
+    this.decoratedDocuments.add(document.uri.toString());
+  }
+
+  /**
+   * Track an edit. Returns true when the edit should hide the document's decorations:
+   * the first edit after a manual decoration, or the first of a burst of typing.
+   * `onPause` runs once typing has paused long enough to show them again.
+   */
+  static onDidEdit(document: vscode.TextDocument, onPause: () => void): boolean {
+    const key = document.uri.toString();
+    switch (this.setting) {
+      case 'manual':
+        return this.decoratedDocuments.delete(key);
+      case 'off-while-typing': {
+        const timer = this.typingTimers.get(key);
+        clearTimeout(timer);
+        this.typingTimers.set(
+          key,
+          setTimeout(() => {
+            this.typingTimers.delete(key);
+            onPause();
+          }, this.TYPING_PAUSE)
+        );
+        return timer === undefined;
+      }
+      default:
+        return false;
+    }
+  }
+
+  static forget(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    this.decoratedDocuments.delete(key);
+    clearTimeout(this.typingTimers.get(key));
+    this.typingTimers.delete(key);
+  }
+
+  static dispose(): void {
+    this.typingTimers.forEach((timer) => clearTimeout(timer));
+    this.typingTimers.clear();
+    this.decoratedDocuments.clear();
+  }
+}
@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import { BracketLynxConfig, type BracketDecorationSource } from './lens';
+
+// ============================================================================
+// 🔭 VIEWPORT MODE - Decorations built for, and filtered by, what is on screen
+// ============================================================================
+
+export type ViewportModeSetting = 'off' | 'visible' | 'offscreenOpenings';
+
+// 0-based, inclusive
+export interface LineWindow {
+  start: number;
+  end: number;
+}
+
+export class ViewportMode {
+  /**
+   * Whether decoration sources are built lazily, for the lines around each viewport
+   */
+  static get isEnabled(): boolean {
+    return BracketLynxConfig.viewportMode !== 'off';
+  }
+
+  static get isOffscreenOpeningsOnly(): boolean {
+    return BracketLynxConfig.viewportMode === 'offscreenOpenings';
+  }
+
+  /**
+   * The visible lines with a screen's worth of margin on each side, so short scrolls find their decorations built
+   */
+  static getWindow(visibleRanges: readonly vscode.Range[]): LineWindow | undefined {
+    if (visibleRanges.length === 0) {
+      return undefined;
+    }
+    const start = Math.min(...visibleRanges.map((range) => range.start.line));
+    const end = Math.max(...visibleRanges.map((range) => range.end.line));
+    const margin = end - start + 1;
+    return { start: Math.max(0, start - margin), end: end + margin };
+  }
+
+  /**
+   * Only the scopes whose opening line is scrolled (or folded) out of view
+   */
+  static filterOffscreenOpenings(
+    sources: BracketDecorationSource[],
+    visibleRanges: readonly vscode.Range[]
+  ): BracketDecorationSource[] {
+    return sources.filter(
+      (source) =>
+        !visibleRanges.some(
+          (range) => range.start.line <= source.openingLine && source.openingLine <= range.end.line
+        )
+    );
+  }
+}